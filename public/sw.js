@@ -0,0 +1,89 @@
+// Service worker that keeps the app shell available offline, so the visitor
+// form still loads on the kiosk tablet when the network is down. Supabase
+// requests are never cached; visits and thesis titles are kept in IndexedDB
+// by the app itself.
+
+// Bumped so devices drop the v1 cache, which kept every old build's assets
+const CACHE_NAME = 'undergradfile-shell-v2';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+
+// Built assets have hashed names, so they are read from index.html
+const ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+)"/g;
+
+const referencedAssets = html => [...html.matchAll(ASSET_PATTERN)].map(match => match[1]);
+
+// Each deploy brings new hashed assets, so the ones the current index.html
+// no longer references are dropped instead of piling up in the cache
+const pruneAssets = async (cache, html) => {
+  const keep = new Set(referencedAssets(html));
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter(request => {
+        const { pathname } = new URL(request.url);
+        return pathname.startsWith('/assets/') && !keep.has(pathname);
+      })
+      .map(request => cache.delete(request))
+  );
+};
+
+const cacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_URLS);
+
+  const html = await (await cache.match('/index.html')).text();
+  await cache.addAll(referencedAssets(html));
+  await pruneAssets(cache, html);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages come from the network when possible so a new deploy shows up
+// straight away, falling back to the cached shell for every route
+const handleNavigation = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const html = response.clone();
+      cache.put('/index.html', response.clone())
+        .then(() => html.text())
+        .then(text => pruneAssets(cache, text))
+        .catch(error => console.error('Error updating the cached shell:', error));
+    }
+    return response;
+  } catch {
+    return cache.match('/index.html');
+  }
+};
+
+// Hashed assets never change, so a cached copy is always good; anything
+// else the page loads is cached the first time it is fetched, until a newer
+// index.html stops referencing it
+const handleAsset = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+});
@@ -2,11 +2,20 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "./hooks/useAuth";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
+import Admin from "./pages/Admin";
+import Kiosk from "./pages/Kiosk";
 import NotFound from "./pages/NotFound";
 import ClickSpark from "./components/ClickSpark";
+import ProtectedRoute from "./components/ProtectedRoute";
+import StatisticsTab from "./components/admin/StatisticsTab";
+import UserRecords from "./components/admin/UserRecords";
+import ThesisData from "./components/admin/ThesisData";
+import ReferenceLists from "./components/admin/ReferenceLists";
+import SystemUsers from "./components/admin/SystemUsers";
 
 const queryClient = new QueryClient();
 
@@ -20,6 +29,17 @@ const App = () => (
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/kiosk" element={<Kiosk />} />
+              {/* Dashboard tabs; Readers only see Statistics and User Records */}
+              <Route path="/admin" element={<ProtectedRoute><Admin /></ProtectedRoute>}>
+                <Route index element={<Navigate to="statistics" replace />} />
+                <Route path="statistics" element={<StatisticsTab />} />
+                <Route path="records" element={<UserRecords />} />
+                <Route path="thesis" element={<ProtectedRoute requiredRole="Admin"><ThesisData /></ProtectedRoute>} />
+                <Route path="lists" element={<ProtectedRoute requiredRole="Admin"><ReferenceLists /></ProtectedRoute>} />
+                <Route path="users" element={<ProtectedRoute requiredRole="Admin"><SystemUsers /></ProtectedRoute>} />
+              </Route>
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
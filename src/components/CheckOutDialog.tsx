@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { LogOut, ScanBarcode } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner';
+import { formatDuration, sessionMinutes } from '@/lib/visitSessions';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface CheckOutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Either an open visit picked from the list or a student number to look up
+type CheckOutTarget = { visitId: string } | { studentNumber: string };
+
+const CheckOutDialog: React.FC<CheckOutDialogProps> = ({ open, onOpenChange }) => {
+  const [studentNumber, setStudentNumber] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: visitors = [], isLoading } = useQuery({
+    queryKey: ['current-visitors'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('current_visitors');
+
+      if (error) {
+        console.error('Error fetching current visitors:', error);
+        throw error;
+      }
+
+      return data;
+    },
+    enabled: open,
+  });
+
+  const checkOutMutation = useMutation({
+    mutationFn: async (target: CheckOutTarget) => {
+      const { data, error } = await supabase.rpc(
+        'check_out_visit',
+        'visitId' in target ? { visit_id: target.visitId } : { visitor_student_number: target.studentNumber }
+      );
+
+      if (error) {
+        console.error('Error checking out visitor:', error);
+        throw error;
+      }
+
+      return data[0] ?? null;
+    },
+    onSuccess: (visit, target) => {
+      if (!visit) {
+        toast({
+          title: "No Open Visit",
+          description: 'studentNumber' in target
+            ? `Nobody with student number ${target.studentNumber} is checked in.`
+            : "This visitor has already checked out.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setStudentNumber('');
+      toast({
+        title: "Checked Out",
+        description: `Goodbye, ${visit.full_name}! Time spent: ${formatDuration(sessionMinutes(visit))}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Check-Out Failed",
+        description: "There was an error checking out. Please try again.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['current-visitors'] });
+    },
+  });
+
+  // Scanning an ID card checks its student number out straight away
+  useBarcodeScanner(code => checkOutMutation.mutate({ studentNumber: code }), open);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (studentNumber.trim()) {
+      checkOutMutation.mutate({ studentNumber: studentNumber.trim() });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Check Out</DialogTitle>
+          <DialogDescription>
+            Scan or enter your student number, or pick your name from the list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <div className="relative flex-1">
+            <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={studentNumber}
+              onChange={(e) => setStudentNumber(e.target.value)}
+              className="input-field w-full pl-9"
+              placeholder="Student number"
+            />
+          </div>
+          <button
+            type="submit"
+            className="btn-primary"
+            disabled={!studentNumber.trim() || checkOutMutation.isPending}
+          >
+            Check Out
+          </button>
+        </form>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Currently in the room</h4>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-red-600"></div>
+            </div>
+          ) : visitors.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Nobody is checked in right now.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-72 overflow-y-auto border border-gray-200 rounded-lg">
+              {visitors.map(visitor => (
+                <li key={visitor.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{visitor.full_name}</div>
+                    <div className="text-xs text-gray-500">
+                      {visitor.user_type} • in since{' '}
+                      {new Date(visitor.submission_date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => checkOutMutation.mutate({ visitId: visitor.id })}
+                    disabled={checkOutMutation.isPending}
+                    className="text-sm text-red-600 hover:text-red-800 font-medium flex items-center space-x-1"
+                  >
+                    <LogOut size={14} />
+                    <span>Check out</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckOutDialog;
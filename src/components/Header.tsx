@@ -1,19 +1,24 @@
 import React from 'react';
-import { LogOut, BookOpen } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { LogOut, BookOpen, Lock } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import '../App.css';
 
 interface HeaderProps {
   onAdminLoginClick?: () => void;
   showAdminLogin?: boolean;
+  // Kiosk mode hides everything but a discreet way out
+  onExitKiosk?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onAdminLoginClick, showAdminLogin }) => {
+const Header: React.FC<HeaderProps> = ({ onAdminLoginClick, showAdminLogin, onExitKiosk }) => {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
 
   const handleSignOut = async () => {
     try {
       await signOut();
+      navigate('/', { replace: true });
     } catch (error) {
       console.error('Sign out error:', error);
     }
@@ -38,34 +43,44 @@ const Header: React.FC<HeaderProps> = ({ onAdminLoginClick, showAdminLogin }) =>
           </div>
 
           {/* Navigation */}
-          <div className="flex items-center space-x-4">
-            <button className="btn-secondary flex items-center space-x-2">
-              <BookOpen size={16} />
-              <span className="hidden sm:inline">Tutorial</span>
+          {onExitKiosk ? (
+            <button
+              onClick={onExitKiosk}
+              className="p-2 text-gray-300 hover:text-gray-500"
+              title="Exit kiosk mode"
+            >
+              <Lock size={16} />
             </button>
-            {showAdminLogin && (
-              <button
-                onClick={onAdminLoginClick}
-                className="btn-primary flex items-center space-x-2"
-              >
-                <span>Admin Login</span>
+          ) : (
+            <div className="flex items-center space-x-4">
+              <button className="btn-secondary flex items-center space-x-2">
+                <BookOpen size={16} />
+                <span className="hidden sm:inline">Tutorial</span>
               </button>
-            )}
-            {user && (
-              <div className="flex items-center space-x-3">
-                <span className="text-sm text-gray-700 hidden sm:inline">
-                  Welcome, {user.email}
-                </span>
-                <button 
-                  onClick={handleSignOut}
+              {showAdminLogin && (
+                <button
+                  onClick={onAdminLoginClick}
                   className="btn-primary flex items-center space-x-2"
                 >
-                  <LogOut size={16} />
-                  <span>Logout</span>
+                  <span>Admin Login</span>
                 </button>
-              </div>
-            )}
-          </div>
+              )}
+              {user && (
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-700 hidden sm:inline">
+                    Welcome, {user.email}
+                  </span>
+                  <button 
+                    onClick={handleSignOut}
+                    className="btn-primary flex items-center space-x-2"
+                  >
+                    <LogOut size={16} />
+                    <span>Logout</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </header>
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '../integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface KioskExitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExit: () => void;
+}
+
+const KioskExitDialog: React.FC<KioskExitDialogProps> = ({ open, onOpenChange, onExit }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Never leave a typed PIN behind for the next visitor
+  useEffect(() => {
+    setPin('');
+    setError('');
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+
+    try {
+      const { data, error: verifyError } = await supabase.rpc('verify_kiosk_pin', { pin });
+      // Raised while the PIN is locked after too many wrong attempts
+      if (verifyError?.code === 'P0001') {
+        setPin('');
+        setError(verifyError.message);
+        return;
+      }
+      if (verifyError) throw verifyError;
+
+      if (data) {
+        onExit();
+      } else {
+        setPin('');
+        setError('Incorrect PIN. Five wrong PINs lock kiosk mode for 15 minutes. If no PIN has been set, an admin can set one under System Users.');
+      }
+    } catch (verifyError) {
+      console.error('Error checking kiosk PIN:', verifyError);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Exit Kiosk Mode</DialogTitle>
+          <DialogDescription>Staff only. Enter the admin PIN to leave kiosk mode.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => {
+              setPin(e.target.value.replace(/\D/g, ''));
+              setError('');
+            }}
+            className="input-field text-center text-2xl tracking-widest"
+            maxLength={8}
+            autoFocus
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={pin.length < 4 || isChecking}
+            >
+              {isChecking ? 'Checking...' : 'Exit'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KioskExitDialog;
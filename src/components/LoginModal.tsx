@@ -6,9 +6,11 @@
   interface LoginModalProps {
     isOpen: boolean;
     onClose: () => void;
+    // Called instead of onClose once signed in
+    onSuccess?: () => void;
   }
 
-  const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose }) => {
+  const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSuccess }) => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [showPassword, setShowPassword] = useState(false);
@@ -39,7 +41,11 @@
           title: "Success",
           description: "Successfully logged in!",
         });
-        onClose();
+        if (onSuccess) {
+          onSuccess();
+        } else {
+          onClose();
+        }
         // Reset form
         setEmail('');
         setPassword('');
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Settings } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { UserRole, useUserRole } from '../hooks/useUserRole';
+
+interface ProtectedRouteProps {
+  // Left out for pages every dashboard user may open
+  requiredRole?: UserRole;
+  children: React.ReactNode;
+}
+
+// Guards dashboard routes: visitors are sent to the login page and come back
+// afterwards, and Readers are kept out of the Admin-only tabs
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ requiredRole, children }) => {
+  const { user, session, loading } = useAuth();
+  const { userRole, isLoading } = useUserRole();
+  const location = useLocation();
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading dashboard...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (!userRole) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 mb-4">
+            <Settings size={48} className="mx-auto mb-4" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Access Denied</h3>
+          <p className="text-gray-500">You don't have permission to access the admin dashboard.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (requiredRole === 'Admin' && userRole !== 'Admin') {
+    return (
+      <div className="text-center py-8">
+        <div className="text-red-600 mb-4">
+          <Settings size={48} className="mx-auto mb-4" />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Access Restricted</h3>
+        <p className="text-gray-500">You don't have permission to access this section.</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
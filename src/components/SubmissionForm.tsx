@@ -1,39 +1,110 @@
-import React, { useState, useEffect } from 'react';
-import { FileText, Users, School, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, Users, School, CheckCircle, Link2, ScanBarcode, X, Plus, LogOut, UserCheck, CloudOff, AlertCircle } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { useToast } from '../hooks/use-toast';
 import { supabase } from '../integrations/supabase/client';
-import ThesisTitleSearch from './ThesisTitleSearch';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { usePendingVisits } from '../hooks/usePendingVisits';
+import { useTitleSnapshotRefresh } from '../hooks/useTitleSnapshotRefresh';
+import ThesisTitleSearch, { ThesisTitle } from './ThesisTitleSearch';
+import CheckOutDialog from './CheckOutDialog';
+import { useReferenceList } from '../hooks/useReferenceList';
+import { activeNames } from '@/lib/referenceLists';
+import { findReturningVisitor, isReturningVisitor } from '@/lib/returningVisitor';
+import { submitVisit } from '@/lib/offlineVisitQueue';
+import {
+  emptySubmission,
+  MIN_STUDENT_NUMBER_LENGTH,
+  SubmissionFormValues,
+  submissionSchema,
+  SubmissionValues,
+  thesisTitleSchema,
+} from '@/lib/submissionSchema';
+import { DID_YOU_MEAN_SIMILARITY, findSimilarTheses, formatSimilarity, ThesisMatch } from '@/lib/thesisMatching';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
+
+// One thesis consulted during the visit, as typed or picked in its row
+interface VisitItemDraft {
+  key: string;
+  title: string;
+  // Catalog record picked from the title suggestions or scanned, if any
+  thesis: ThesisTitle | null;
+}
+
+const newItem = (thesis: ThesisTitle | null = null): VisitItemDraft => ({
+  key: crypto.randomUUID(),
+  title: thesis?.thesis_title ?? '',
+  thesis,
+});
+
+// Editing the title after picking a suggestion unlinks the catalog record.
+// Derived rather than cleared on change, so a scan typed into a title field
+// and then undone leaves the link intact.
+const linkedThesis = (item: VisitItemDraft) =>
+  item.thesis?.thesis_title === item.title ? item.thesis : null;
+
+const USER_TYPE_CHOICES = [
+  { value: 'LPU Student', icon: Users },
+  { value: 'Non-LPU Student', icon: School },
+] as const;
+
+// Invalid fields get a red border via the aria-invalid set by FormControl
+const FIELD_CLASS = 'w-full p-3 border-2 border-gray-200 rounded-lg focus:border-red-400 focus:ring-1 focus:ring-red-200 transition-all aria-[invalid=true]:border-red-400';
+
+// What the visitor is told once their visit is sent or queued offline
+const SUCCESS_MESSAGES = {
+  sent: 'Your thesis record has been successfully submitted.',
+  queued: 'Your record was saved on this device and will be sent once the connection is back.',
+};
 
 const SubmissionForm = () => {
-  const [userType, setUserType] = useState<'lpu' | 'non-lpu'>('lpu');
-  const [formData, setFormData] = useState({
-    fullName: '',
-    studentNumber: '',
-    school: '',
-    campus: '',
-    program: '',
-    thesisTitle: ''
+  const form = useForm<SubmissionFormValues, unknown, SubmissionValues>({
+    resolver: zodResolver(submissionSchema),
+    defaultValues: emptySubmission(),
   });
+  const userType = form.watch('user_type');
+  const studentNumberInput = form.watch('student_number');
+  const [items, setItems] = useState<VisitItemDraft[]>(() => [newItem()]);
+  // Inline errors for thesis rows, by row key
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  // Visitor details that passed validation, kept while titles are reviewed
+  const validatedVisit = useRef<SubmissionValues | null>(null);
+  // Close catalog match for one row's typed title, offered before submitting
+  const [titleSuggestion, setTitleSuggestion] = useState<{ key: string; match: ThesisMatch } | null>(null);
+  // Rows whose typed title the visitor already chose to keep, as `key:title`
+  const reviewedTitles = useRef(new Set<string>());
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showSuccess, setShowSuccess] = useState(false);
+  // Shown after submitting: whether the visit was sent or kept on this device
+  const [showSuccess, setShowSuccess] = useState<'sent' | 'queued' | null>(null);
+  const [showCheckOut, setShowCheckOut] = useState(false);
+  // A student number that has visited before. Its details are only fetched
+  // once the visitor gives their surname initial, so neither the kiosk nor
+  // the API hands someone else's details to whoever types a number.
+  const [returningStudentNumber, setReturningStudentNumber] = useState<string | null>(null);
+  const [surnameInitial, setSurnameInitial] = useState('');
+  const [isFillingIn, setIsFillingIn] = useState(false);
+  // Student numbers whose saved details the visitor chose not to use
+  const declinedStudentNumbers = useRef(new Set<string>());
+  const { pendingCount: pendingVisits, failedCount: failedVisits } = usePendingVisits();
+  useTitleSnapshotRefresh();
   const { toast } = useToast();
 
-  const campusOptions = [
-    'LIMA Campus',
-    'Main Campus',
-    'Riverside Campus'
-  ];
-
-  const programOptions = [
-    'Computer Science',
-    'Information Technology',
-    'Engineering',
-    'Business Administration',
-    'Psychology',
-    'Education',
-    'Nursing',
-    'Accountancy'
-  ];
+  // Managed by admins in the Reference Lists tab
+  const { data: campuses = [] } = useReferenceList('campuses');
+  const { data: programs = [] } = useReferenceList('programs');
+  const campusOptions = activeNames(campuses);
+  const programOptions = activeNames(programs);
 
   // Floating orbs animation
   const [orbs, setOrbs] = useState<Array<{
@@ -115,54 +186,227 @@ const SubmissionForm = () => {
     return () => cancelAnimationFrame(animationFrame);
   }, []);
 
-  const handleInputChange = (field: string, value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: value
-    }));
+  useEffect(() => {
+    setReturningStudentNumber(null);
+    setSurnameInitial('');
+    const studentNumber = studentNumberInput.trim();
+    if (userType !== 'LPU Student' || studentNumber.length < MIN_STUDENT_NUMBER_LENGTH ||
+        declinedStudentNumbers.current.has(studentNumber)) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const isKnown = await isReturningVisitor(studentNumber);
+        if (!cancelled && isKnown) setReturningStudentNumber(studentNumber);
+      } catch (error) {
+        // Autofill is only a convenience; the visitor can still type
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [userType, studentNumberInput]);
+
+  const handleUseReturningVisitor = async () => {
+    const studentNumber = returningStudentNumber;
+    setIsFillingIn(true);
+    let visitor = null;
+    try {
+      visitor = await findReturningVisitor(studentNumber, surnameInitial);
+    } catch (error) {
+      // Treated like a mismatch; the visitor can still type their details
+    } finally {
+      setIsFillingIn(false);
+    }
+
+    setReturningStudentNumber(null);
+    setSurnameInitial('');
+    if (!visitor) {
+      declinedStudentNumbers.current.add(studentNumber);
+      toast({
+        title: "Details Not Filled In",
+        description: "That doesn't match our records. Please type your details.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { full_name, campus, program } = visitor;
+    // Campuses or programs that have since been removed from the lists stay as they were
+    form.setValue('full_name', full_name, { shouldValidate: form.formState.isSubmitted });
+    if (campusOptions.includes(campus)) {
+      form.setValue('campus', campus, { shouldValidate: form.formState.isSubmitted });
+    }
+    if (programOptions.includes(program)) {
+      form.setValue('program', program, { shouldValidate: form.formState.isSubmitted });
+    }
+  };
+
+  const handleDeclineReturningVisitor = () => {
+    declinedStudentNumbers.current.add(returningStudentNumber);
+    setReturningStudentNumber(null);
+    setSurnameInitial('');
+  };
+
+  const updateItem = (key: string, changes: Partial<VisitItemDraft>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
+    if ('title' in changes) {
+      setItemErrors(({ [key]: _, ...rest }) => rest);
+    }
+  };
+
+  const removeItem = (key: string) => {
+    setItems(prev => prev.filter(item => item.key !== key));
+  };
+
+  const handleScan = async (barcode: string) => {
+    const { data, error } = await supabase
+      .from('thesis_data')
+      .select('id, barcode, thesis_title, authors, department, publication_year')
+      .eq('barcode', barcode)
+      .eq('is_deleted', false)
+      .eq('status', 'published')
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error looking up scanned barcode:', error);
+      toast({
+        title: "Barcode Not Found",
+        description: `No thesis in the catalog has the barcode ${barcode}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (items.some(item => linkedThesis(item)?.id === data.id)) {
+      toast({
+        title: "Already Added",
+        description: `"${data.thesis_title}" is already part of this record.`,
+      });
+      return;
+    }
+
+    // A scan fills the first empty row, or adds a row when all are in use
+    const emptyItem = items.find(item => !item.title.trim());
+    if (emptyItem) {
+      updateItem(emptyItem.key, { title: data.thesis_title, thesis: data });
+    } else {
+      setItems(prev => [...prev, newItem(data)]);
+    }
+  };
+
+  // The check-out dialog listens for its own scans while it is open
+  useBarcodeScanner(handleScan, !isSubmitting && !showSuccess && !showCheckOut);
+
+  // Looks for a catalog title close to a free-text title the visitor typed
+  const findTitleSuggestion = async (title: string) => {
+    try {
+      const matches = await findSimilarTheses(title, DID_YOU_MEAN_SIMILARITY);
+      // Nothing to ask when the catalog has the title exactly as typed
+      if (matches.some(match => match.thesis_title.toLowerCase() === title.toLowerCase())) return null;
+      return matches[0] ?? null;
+    } catch (error) {
+      // Matching is only a convenience; never block the submission on it
+      return null;
+    }
+  };
+
+  // Offers a close catalog match for each typed title in turn, then submits
+  const reviewItems = async (visitItems: VisitItemDraft[]) => {
+    for (const item of visitItems) {
+      const title = item.title.trim();
+      const reviewKey = `${item.key}:${title}`;
+      if (linkedThesis(item) || !title || reviewedTitles.current.has(reviewKey)) continue;
+
+      setIsSubmitting(true);
+      const match = await findTitleSuggestion(title);
+      setIsSubmitting(false);
+      if (match) {
+        setTitleSuggestion({ key: item.key, match });
+        return;
+      }
+      reviewedTitles.current.add(reviewKey);
+    }
+
+    await submitRecord(visitItems);
+  };
+
+  // Every row needs a title; blank rows must be filled in or removed
+  const validateItems = () => {
+    const errors: Record<string, string> = {};
+    items.forEach(item => {
+      const result = thesisTitleSchema.safeParse(item.title);
+      if (!result.success) errors[item.key] = result.error.issues[0].message;
+    });
+    setItemErrors(errors);
+    return Object.keys(errors).length === 0;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleValidSubmit = async (values: SubmissionValues) => {
+    if (!validateItems()) return;
+    validatedVisit.current = values;
+    await reviewItems(items);
+  };
+
+  // Show the thesis row errors alongside the visitor field errors
+  const handleInvalidSubmit = () => {
+    validateItems();
+  };
+
+  const handleAcceptSuggestion = async () => {
+    const { key, match } = titleSuggestion;
+    setTitleSuggestion(null);
+    const updated = items.map(item => item.key === key ? { ...item, title: match.thesis_title, thesis: match } : item);
+    setItems(updated);
+    await reviewItems(updated);
+  };
+
+  const handleRejectSuggestion = async () => {
+    const item = items.find(item => item.key === titleSuggestion.key);
+    setTitleSuggestion(null);
+    reviewedTitles.current.add(`${item.key}:${item.title.trim()}`);
+    await reviewItems(items);
+  };
+
+  const submitRecord = async (visitItems: VisitItemDraft[]) => {
     setIsSubmitting(true);
     
     try {
-      const submissionData = {
-        full_name: formData.fullName,
-        user_type: userType === 'lpu' ? 'LPU Student' : 'Non-LPU Student',
-        student_number: userType === 'lpu' ? formData.studentNumber : null,
-        school: userType === 'non-lpu' ? formData.school : null,
-        campus: formData.campus,
-        program: userType === 'lpu' ? formData.program : null,
-        thesis_title: formData.thesisTitle,
+      // The visit and its theses are written together, so a visit is never
+      // logged without the theses consulted
+      const visit = {
+        id: crypto.randomUUID(),
+        ...validatedVisit.current,
         submission_date: new Date().toISOString()
       };
 
-      const { error } = await supabase
-        .from('thesis_submissions')
-        .insert([submissionData]);
+      const consulted = visitItems.map(item => ({
+        thesis_title: thesisTitleSchema.parse(item.title),
+        thesis_id: linkedThesis(item)?.id ?? null,
+      }));
 
-      if (error) {
-        throw error;
-      }
+      // Kept on this device and retried when the connection is down
+      const outcome = await submitVisit({ visit, items: consulted });
 
-      setShowSuccess(true);
+      setShowSuccess(outcome);
       toast({
         title: "Record Submitted",
-        description: "Your thesis record has been successfully submitted.",
+        description: SUCCESS_MESSAGES[outcome],
       });
 
       // Reset form after success
       setTimeout(() => {
-        setFormData({
-          fullName: '',
-          studentNumber: '',
-          school: '',
-          campus: '',
-          program: '',
-          thesisTitle: ''
-        });
-        setShowSuccess(false);
+        form.reset(emptySubmission());
+        setItems([newItem()]);
+        setItemErrors({});
+        validatedVisit.current = null;
+        reviewedTitles.current.clear();
+        declinedStudentNumbers.current.clear();
+        setShowSuccess(null);
       }, 2000);
     } catch (error) {
       console.error('Error submitting record:', error);
@@ -208,138 +452,261 @@ const SubmissionForm = () => {
               </h2>
             </div>
             <div className="w-24 h-1 bg-gradient-to-r from-red-500 to-blue-500 mx-auto rounded-full"></div>
+            <button
+              type="button"
+              onClick={() => setShowCheckOut(true)}
+              className="mt-4 text-sm text-red-600 hover:text-red-800 font-medium inline-flex items-center space-x-1"
+            >
+              <LogOut size={16} />
+              <span>Leaving? Check out here</span>
+            </button>
+            {(pendingVisits > 0 || failedVisits > 0) && (
+              <div className="mt-3 flex flex-wrap justify-center gap-2">
+                {pendingVisits > 0 && (
+                  <span className="inline-flex items-center space-x-2 rounded-full bg-amber-50 border border-amber-200 px-3 py-1 text-sm text-amber-800">
+                    <CloudOff size={14} />
+                    <span>
+                      {pendingVisits} {pendingVisits === 1 ? 'record' : 'records'} waiting to sync
+                    </span>
+                  </span>
+                )}
+                {failedVisits > 0 && (
+                  <span
+                    className="inline-flex items-center space-x-2 rounded-full bg-red-50 border border-red-200 px-3 py-1 text-sm text-red-700"
+                    title="These records were rejected by the server and kept on this device. Ask library staff to review them."
+                  >
+                    <AlertCircle size={14} />
+                    <span>
+                      {failedVisits} {failedVisits === 1 ? 'record' : 'records'} could not be saved
+                    </span>
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleValidSubmit, handleInvalidSubmit)} className="space-y-6" noValidate>
             {/* User Type Selection */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Select User Type:
-              </label>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div 
-                  className={`p-4 border-2 rounded-lg transition-all ${userType === 'lpu' ? 'border-red-400 bg-red-50' : 'border-gray-200 hover:border-gray-300'}`}
-                  onClick={() => setUserType('lpu')}
-                >
-                  <label className="flex items-center space-x-3 cursor-pointer">
-                    <input
-                      type="radio"
-                      value="lpu"
-                      checked={userType === 'lpu'}
-                      onChange={(e) => setUserType(e.target.value as 'lpu' | 'non-lpu')}
-                      className="w-4 h-4 text-red-600 focus:ring-red-500"
-                    />
-                    <Users className="h-5 w-5 text-red-600" />
-                    <span className="text-gray-700 font-medium">LPU Student</span>
-                  </label>
-                </div>
-                <div 
-                  className={`p-4 border-2 rounded-lg transition-all ${userType === 'non-lpu' ? 'border-red-400 bg-red-50' : 'border-gray-200 hover:border-gray-300'}`}
-                  onClick={() => setUserType('non-lpu')}
-                >
-                  <label className="flex items-center space-x-3 cursor-pointer">
-                    <input
-                      type="radio"
-                      value="non-lpu"
-                      checked={userType === 'non-lpu'}
-                      onChange={(e) => setUserType(e.target.value as 'lpu' | 'non-lpu')}
-                      className="w-4 h-4 text-red-600 focus:ring-red-500"
-                    />
-                    <School className="h-5 w-5 text-red-600" />
-                    <span className="text-gray-700 font-medium">Non-LPU Student</span>
-                  </label>
-                </div>
-              </div>
-            </div>
+            <FormField
+              control={form.control}
+              name="user_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="block mb-3">Select User Type:</FormLabel>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {USER_TYPE_CHOICES.map(({ value, icon: Icon }) => (
+                      <div
+                        key={value}
+                        className={`p-4 border-2 rounded-lg transition-all ${field.value === value ? 'border-red-400 bg-red-50' : 'border-gray-200 hover:border-gray-300'}`}
+                        onClick={() => field.onChange(value)}
+                      >
+                        <label className="flex items-center space-x-3 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={field.name}
+                            value={value}
+                            checked={field.value === value}
+                            onChange={() => field.onChange(value)}
+                            className="w-4 h-4 text-red-600 focus:ring-red-500"
+                          />
+                          <Icon className="h-5 w-5 text-red-600" />
+                          <span className="text-gray-700 font-medium">{value}</span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
 
             {/* Form Fields */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Full Name */}
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700">
-                  Full Name
-                </label>
-                <input
-                  type="text"
-                  value={formData.fullName}
-                  onChange={(e) => handleInputChange('fullName', e.target.value)}
-                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-red-400 focus:ring-1 focus:ring-red-200 transition-all"
-                  placeholder="Enter your full name"
-                  required
-                />
-              </div>
+              <FormField
+                control={form.control}
+                name="full_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="block">Full Name</FormLabel>
+                    <FormControl>
+                      <input
+                        type="text"
+                        {...field}
+                        className={FIELD_CLASS}
+                        placeholder="Enter your full name"
+                      />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
 
               {/* Student Number or School */}
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700">
-                  {userType === 'lpu' ? 'Student Number' : 'Name of School'}
-                </label>
-                <input
-                  type="text"
-                  value={userType === 'lpu' ? formData.studentNumber : formData.school}
-                  onChange={(e) => handleInputChange(
-                    userType === 'lpu' ? 'studentNumber' : 'school', 
-                    e.target.value
-                  )}
-                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-red-400 focus:ring-1 focus:ring-red-200 transition-all"
-                  placeholder={userType === 'lpu' ? 'Enter student number' : 'Enter school name'}
-                  required
-                />
-              </div>
+              <FormField
+                control={form.control}
+                key={userType}
+                name={userType === 'LPU Student' ? 'student_number' : 'school'}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="block">
+                      {userType === 'LPU Student' ? 'Student Number' : 'Name of School'}
+                    </FormLabel>
+                    <FormControl>
+                      <input
+                        type="text"
+                        {...field}
+                        className={FIELD_CLASS}
+                        placeholder={userType === 'LPU Student' ? 'e.g. 2021-00123' : 'Enter school name'}
+                      />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+
+              {/* Returning visitor autofill */}
+              {userType === 'LPU Student' && returningStudentNumber && (
+                <div className="md:col-span-2 flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <div className="flex items-center space-x-3 text-sm text-green-800">
+                    <UserCheck className="h-5 w-5 flex-shrink-0" />
+                    <span>
+                      Welcome back! Enter the first letter of your last name to fill in your name, campus and program
+                      from your last visit.
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={surnameInitial}
+                      onChange={(e) => setSurnameInitial(e.target.value.slice(-1).toUpperCase())}
+                      className="w-12 p-1.5 text-center border-2 border-green-200 rounded-lg focus:border-green-400"
+                      maxLength={1}
+                      aria-label="First letter of your last name"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleDeclineReturningVisitor}
+                      className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      No, thanks
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleUseReturningVisitor}
+                      disabled={!surnameInitial || isFillingIn}
+                      className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg disabled:opacity-50"
+                    >
+                      {isFillingIn ? 'Checking...' : 'Fill them in'}
+                    </button>
+                  </div>
+                </div>
+              )}
 
               {/* Campus */}
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700">
-                  Campus
-                </label>
-                <select
-                  value={formData.campus}
-                  onChange={(e) => handleInputChange('campus', e.target.value)}
-                  className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-red-400 focus:ring-1 focus:ring-red-200 transition-all"
-                  required
-                >
-                  <option value="">Select Campus</option>
-                  {campusOptions.map(campus => (
-                    <option key={campus} value={campus}>{campus}</option>
-                  ))}
-                </select>
-              </div>
+              <FormField
+                control={form.control}
+                name="campus"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="block">Campus</FormLabel>
+                    <FormControl>
+                      <select {...field} className={FIELD_CLASS}>
+                        <option value="">Select Campus</option>
+                        {campusOptions.map(campus => (
+                          <option key={campus} value={campus}>{campus}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
 
               {/* Program/Department */}
-              {userType === 'lpu' && (
-                <div className="space-y-2">
-                  <label className="block text-sm font-medium text-gray-700">
-                    Program/Department
-                  </label>
-                  <select
-                    value={formData.program}
-                    onChange={(e) => handleInputChange('program', e.target.value)}
-                    className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-red-400 focus:ring-1 focus:ring-red-200 transition-all"
-                    required
-                  >
-                    <option value="">Select Program/Department</option>
-                    {programOptions.map(program => (
-                      <option key={program} value={program}>{program}</option>
-                    ))}
-                  </select>
-                </div>
+              {userType === 'LPU Student' && (
+                <FormField
+                  control={form.control}
+                  name="program"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="block">Program/Department</FormLabel>
+                      <FormControl>
+                        <select {...field} className={FIELD_CLASS}>
+                          <option value="">Select Program/Department</option>
+                          {programOptions.map(program => (
+                            <option key={program} value={program}>{program}</option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
               )}
             </div>
 
-            {/* Thesis Title with Search */}
+            {/* Theses consulted, one search row each */}
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-700">
-                Title of Thesis
+                {items.length > 1 ? 'Titles of Theses' : 'Title of Thesis'}
               </label>
-              <ThesisTitleSearch
-                value={formData.thesisTitle}
-                onChange={(value) => handleInputChange('thesisTitle', value)}
-                placeholder="Type to search existing thesis titles..."
-                required
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Start typing to search for existing thesis titles or enter a new one.
-              </p>
+              <ol className="space-y-4">
+                {items.map((item, index) => {
+                  const linked = linkedThesis(item);
+                  return (
+                    <li key={item.key} className="flex items-start gap-3">
+                      {items.length > 1 && (
+                        <span className="text-sm font-bold text-gray-400 pt-3 w-5">{index + 1}.</span>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <ThesisTitleSearch
+                          value={item.title}
+                          onChange={(value) => updateItem(item.key, { title: value })}
+                          onSelect={(thesis) => updateItem(item.key, { thesis })}
+                          placeholder="Type a title, author or barcode, or scan the barcode..."
+                        />
+                        {itemErrors[item.key] ? (
+                          <p className="text-xs font-medium text-destructive mt-1">{itemErrors[item.key]}</p>
+                        ) : linked ? (
+                          <p className="text-xs text-green-700 mt-1 flex items-center space-x-1">
+                            <Link2 size={12} />
+                            <span>Linked to catalog item <span className="font-mono">{linked.barcode}</span></span>
+                          </p>
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Start typing to search for existing thesis titles or enter a new one.
+                          </p>
+                        )}
+                      </div>
+                      {items.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeItem(item.key)}
+                          className="text-gray-400 hover:text-red-600 pt-3"
+                          title="Remove thesis"
+                        >
+                          <X size={16} />
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setItems(prev => [...prev, newItem()])}
+                  className="text-sm text-red-600 hover:text-red-800 font-medium flex items-center space-x-1"
+                >
+                  <Plus size={16} />
+                  <span>Add another thesis</span>
+                </button>
+                <p className="text-xs text-gray-500 flex items-center space-x-1">
+                  <ScanBarcode size={12} />
+                  <span>Consulting more than one thesis? Scan each barcode to add it.</span>
+                </p>
+              </div>
             </div>
 
             {/* Submit Button */}
@@ -367,16 +734,49 @@ const SubmissionForm = () => {
               </button>
             </div>
           </form>
+          </Form>
         </div>
       </div>
 
+      {/* Did you mean...? */}
+      <AlertDialog open={titleSuggestion !== null} onOpenChange={(open) => !open && setTitleSuggestion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Did you mean this thesis?</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  The title you typed
+                  {titleSuggestion && items.length > 1 && ` for thesis ${items.findIndex(item => item.key === titleSuggestion.key) + 1}`} closely
+                  matches a thesis in the catalog:
+                </p>
+                {titleSuggestion && (
+                  <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-left">
+                    <div className="font-medium text-gray-900">{titleSuggestion.match.thesis_title}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {titleSuggestion.match.department} • {titleSuggestion.match.publication_year} • {formatSimilarity(titleSuggestion.match.similarity)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleRejectSuggestion}>No, submit as typed</AlertDialogCancel>
+            <AlertDialogAction onClick={handleAcceptSuggestion}>Yes, use this title</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CheckOutDialog open={showCheckOut} onOpenChange={setShowCheckOut} />
+
       {/* Success Modal */}
       {showSuccess && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white p-8 rounded-2xl shadow-xl text-center max-w-sm">
             <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
             <h3 className="text-2xl font-bold text-gray-800 mb-2">Success!</h3>
-            <p className="text-gray-600">Your thesis record has been successfully submitted.</p>
+            <p className="text-gray-600">{SUCCESS_MESSAGES[showSuccess]}</p>
           </div>
         </div>
       )}
@@ -2,17 +2,28 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Search } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { highlightSegments } from '@/lib/searchHighlight';
+import { findSimilarTheses, formatSimilarity } from '@/lib/thesisMatching';
+import { isUnreachable } from '@/lib/offlineStore';
+import { searchTitleSnapshot } from '@/lib/thesisTitleSnapshot';
+import {
+  hasSearchCriteria,
+  MATCHED_FIELD_LABELS,
+  matchedField,
+  parseSearchQuery,
+} from '@/lib/thesisSearchQuery';
 
 interface ThesisTitleSearchProps {
   value: string;
   onChange: (value: string) => void;
-  onSelect?: (title: string) => void;
+  onSelect?: (thesis: ThesisTitle) => void;
   placeholder?: string;
   required?: boolean;
 }
 
-interface ThesisTitle {
+export interface ThesisTitle {
   id: number;
+  barcode: string;
   thesis_title: string;
   authors: string[];
   department: string;
@@ -23,12 +34,15 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
   value,
   onChange,
   onSelect,
-  placeholder = "Type to search existing thesis titles...",
+  placeholder = "Search by title, author, barcode or department...",
   required = false
 }) => {
-  const [suggestions, setSuggestions] = useState<ThesisTitle[]>([]);
+  // similarity is only set on near misses from the typo-tolerant fallback
+  const [suggestions, setSuggestions] = useState<Array<ThesisTitle & { similarity?: number }>>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Set when suggestions came from the titles saved on this device
+  const [isOffline, setIsOffline] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -55,21 +69,43 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
         return;
       }
 
+      const query = parseSearchQuery(value);
+      if (!hasSearchCriteria(query)) {
+        setSuggestions([]);
+        setIsOpen(false);
+        return;
+      }
+
       setIsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('thesis_data')
-          .select('id, thesis_title, authors, department, publication_year')
-          .ilike('thesis_title', `%${value}%`)
+        // Full-text search over title, authors and department plus barcode
+        // prefixes, narrowed by any author:, dept: or year: prefixes
+        const { data, error, status } = await supabase
+          .rpc('suggest_theses', {
+            search_query: query.text,
+            author_query: query.author,
+            department_query: query.department,
+            year_query: query.year,
+          })
           .eq('is_deleted', false)
-          .order('thesis_title')
+          .eq('status', 'published')
+          .select('id, barcode, thesis_title, authors, department, publication_year')
           .limit(10);
 
-        if (error) {
+        if (error && isUnreachable(status)) {
+          // Supabase cannot be reached; search the titles saved on this device
+          setSuggestions(await searchTitleSnapshot(query));
+          setIsOffline(true);
+          setIsOpen(true);
+          setHighlightedIndex(-1);
+        } else if (error) {
           console.error('Error searching theses:', error);
           setSuggestions([]);
         } else {
-          setSuggestions(data || []);
+          setIsOffline(false);
+          // Nothing matched word for word; look for misspelled titles instead
+          const isPlainText = query.text && !query.author && !query.department && query.year === null;
+          setSuggestions(data && data.length > 0 ? data : isPlainText ? await findSimilarTheses(query.text) : []);
           setIsOpen(true);
           setHighlightedIndex(-1);
         }
@@ -95,7 +131,7 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
     setIsOpen(false);
     setHighlightedIndex(-1);
     if (onSelect) {
-      onSelect(thesis.thesis_title);
+      onSelect(thesis);
     }
   };
 
@@ -129,6 +165,17 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
     }
   };
 
+  const searchQuery = parseSearchQuery(value);
+
+  const renderHighlighted = (text: string, extraTerms: string | null = null) =>
+    highlightSegments(text, [searchQuery.text, extraTerms].filter(Boolean).join(' ')).map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-yellow-100 text-inherit rounded-sm">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )
+    );
+
   return (
     <div ref={searchRef} className="relative">
       <div className="relative">
@@ -157,33 +204,65 @@ const ThesisTitleSearch: React.FC<ThesisTitleSearchProps> = ({
 
       {isOpen && suggestions.length > 0 && (
         <div className="absolute z-50 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
-          {suggestions.map((thesis, index) => (
-            <div
-              key={thesis.id}
-              className={`px-4 py-3 cursor-pointer transition-colors ${
-                index === highlightedIndex
-                  ? 'bg-red-50 border-l-4 border-red-500'
-                  : 'hover:bg-gray-50'
-              }`}
-              onClick={() => handleSelectSuggestion(thesis)}
-              onMouseEnter={() => setHighlightedIndex(index)}
-            >
-              <div className="font-medium text-gray-900 text-sm leading-tight">
-                {thesis.thesis_title}
-              </div>
-              <div className="text-xs text-gray-500 mt-1">
-                <span className="font-medium">{thesis.department}</span>
-                {thesis.authors && thesis.authors.length > 0 && (
-                  <>
-                    {' • '}
-                    <span>{thesis.authors.join(', ')}</span>
-                  </>
-                )}
-                {' • '}
-                <span>{thesis.publication_year}</span>
-              </div>
+          {isOffline && (
+            <div className="px-4 py-2 text-xs font-medium text-amber-700 bg-amber-50 border-b border-amber-200">
+              Offline. Showing titles saved on this device.
+            </div>
+          )}
+          {suggestions[0].similarity !== undefined && (
+            <div className="px-4 py-2 text-xs font-medium text-gray-500 bg-gray-50 border-b border-gray-200">
+              No exact matches. Did you mean:
             </div>
-          ))}
+          )}
+          {suggestions.map((thesis, index) => {
+            const field = matchedField(thesis, searchQuery);
+            return (
+              <div
+                key={thesis.id}
+                className={`px-4 py-3 cursor-pointer transition-colors ${
+                  index === highlightedIndex
+                    ? 'bg-red-50 border-l-4 border-red-500'
+                    : 'hover:bg-gray-50'
+                }`}
+                onClick={() => handleSelectSuggestion(thesis)}
+                onMouseEnter={() => setHighlightedIndex(index)}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="font-medium text-gray-900 text-sm leading-tight">
+                    {renderHighlighted(thesis.thesis_title)}
+                  </div>
+                  {thesis.similarity === undefined && (
+                    <span className="shrink-0 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded-full bg-gray-100 text-gray-600">
+                      {MATCHED_FIELD_LABELS[field]}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {field === 'barcode' && (
+                    <>
+                      <span className="font-mono">{renderHighlighted(thesis.barcode)}</span>
+                      {' • '}
+                    </>
+                  )}
+                  <span className="font-medium">{renderHighlighted(thesis.department, searchQuery.department)}</span>
+                  {thesis.authors && thesis.authors.length > 0 && (
+                    <>
+                      {' • '}
+                      <span>{renderHighlighted(thesis.authors.join(', '), searchQuery.author)}</span>
+                    </>
+                  )}
+                  {' • '}
+                  <span>{thesis.publication_year}</span>
+                  {thesis.similarity !== undefined && (
+                    <>
+                      {' • '}
+                      <span className="text-amber-700">{formatSimilarity(thesis.similarity)}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
 
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Lock, MonitorSmartphone } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// Sets the PIN staff enter to leave kiosk mode on the entrance tablet
+const KioskPinSettings = () => {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ['kiosk-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('kiosk_settings')
+        .select('updated_at')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching kiosk settings:', error);
+        throw error;
+      }
+
+      return data;
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async (newPin: string) => {
+      const { error } = await supabase.rpc('set_kiosk_pin', { pin: newPin });
+
+      if (error) {
+        console.error('Error setting kiosk PIN:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      setPin('');
+      setConfirmPin('');
+      queryClient.invalidateQueries({ queryKey: ['kiosk-settings'] });
+      toast({
+        title: "Kiosk PIN Updated",
+        description: "Use the new PIN to leave kiosk mode.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the kiosk PIN.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pinError = pin && !PIN_PATTERN.test(pin)
+    ? 'The PIN must be 4 to 8 digits'
+    : confirmPin && pin !== confirmPin ? 'The PINs do not match' : '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pinError || !pin || pin !== confirmPin) return;
+    pinMutation.mutate(pin);
+  };
+
+  return (
+    <div className="card-hover p-6">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center space-x-2">
+            <Lock size={18} />
+            <span>Kiosk PIN</span>
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Required to leave kiosk mode on the entrance tablet.{' '}
+            {settings
+              ? `Last changed ${new Date(settings.updated_at).toLocaleString()}.`
+              : 'No PIN has been set yet, so kiosk mode cannot be left.'}
+          </p>
+        </div>
+        <a href="/kiosk" className="btn-secondary flex items-center space-x-2 whitespace-nowrap">
+          <MonitorSmartphone size={16} />
+          <span>Open Kiosk</span>
+        </a>
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-4 flex flex-col sm:flex-row gap-2 sm:items-start">
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          className="input-field sm:max-w-[180px]"
+          placeholder="New PIN"
+          maxLength={8}
+        />
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={confirmPin}
+          onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+          className="input-field sm:max-w-[180px]"
+          placeholder="Confirm PIN"
+          maxLength={8}
+        />
+        <button
+          type="submit"
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={Boolean(pinError) || !pin || pin !== confirmPin || pinMutation.isPending}
+        >
+          {settings ? 'Change PIN' : 'Set PIN'}
+        </button>
+      </form>
+      {pinError && <p className="text-xs text-red-600 mt-2">{pinError}</p>}
+    </div>
+  );
+};
+
+export default KioskPinSettings;
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Edit, Plus, X } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useReferenceList } from '@/hooks/useReferenceList';
+import { REFERENCE_LISTS, ReferenceEntry, ReferenceListName } from '@/lib/referenceLists';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface ReferenceListEditorProps {
+  list: ReferenceListName;
+  singular: string;
+}
+
+const ReferenceListEditor: React.FC<ReferenceListEditorProps> = ({ list, singular }) => {
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: number; name: string } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: entries = [], isLoading } = useReferenceList(list);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Rows are written whole, so one upsert covers adds, renames, reordering
+  // and the active flag
+  const saveMutation = useMutation({
+    mutationFn: async (rows: Array<Partial<ReferenceEntry> & { name: string }>) => {
+      const { error } = await supabase.from(list).upsert(rows);
+
+      if (error) {
+        console.error(`Error saving ${list}:`, error);
+        // unique_violation on the name column
+        if (error.code === '23505') {
+          throw new Error(`That ${singular} is already in the list.`);
+        }
+        throw error;
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['reference-lists', list] });
+    },
+    onError: (error) => showError(error, `Failed to save the ${singular}.`),
+  });
+
+  // Records store the name itself, so a rename also updates every campus,
+  // program or department field that used the old name
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const { error } = await supabase.rpc('rename_reference_entry', {
+        list_name: list,
+        entry_id: id,
+        new_name: name,
+      });
+
+      if (error) {
+        console.error(`Error renaming ${list} entry:`, error);
+        // unique_violation on the name column
+        if (error.code === '23505') {
+          throw new Error(`That ${singular} is already in the list.`);
+        }
+        throw error;
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['reference-lists', list] });
+    },
+    onError: (error) => showError(error, `Failed to rename the ${singular}.`),
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    const lastOrder = entries.reduce((max, entry) => Math.max(max, entry.sort_order), -1);
+    saveMutation.mutate([{ name, sort_order: lastOrder + 1 }], {
+      onSuccess: () => setNewName(''),
+    });
+  };
+
+  const handleRename = () => {
+    const name = editing.name.trim();
+    const entry = entries.find(e => e.id === editing.id);
+    if (!name || name === entry.name) {
+      setEditing(null);
+      return;
+    }
+
+    if (!confirm(`Rename "${entry.name}" to "${name}"? Records that use "${entry.name}" will be updated too.`)) return;
+
+    renameMutation.mutate({ id: entry.id, name }, {
+      onSuccess: () => setEditing(null),
+    });
+  };
+
+  // Renumbers the whole list, since older entries may share a position
+  const handleMove = (index: number, offset: number) => {
+    const reordered = [...entries];
+    const [entry] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, entry);
+
+    const changed = reordered
+      .map((e, position) => ({ ...e, sort_order: position }))
+      .filter((e, position) => entries[position].id !== e.id || entries[position].sort_order !== position);
+    saveMutation.mutate(changed);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+        <span className="ml-2 text-gray-600">Loading {list}...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="input-field flex-1"
+          placeholder={`New ${singular}`}
+        />
+        <button
+          type="submit"
+          className="btn-primary flex items-center space-x-2"
+          disabled={!newName.trim() || saveMutation.isPending}
+        >
+          <Plus size={16} />
+          <span>Add</span>
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <div className="text-center text-gray-500 py-8">
+          No entries yet. Add the first {singular} above.
+        </div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Order</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-24">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry, index) => (
+                <TableRow key={entry.id} className={entry.is_active ? '' : 'bg-gray-50'}>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0 || saveMutation.isPending}
+                        className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === entries.length - 1 || saveMutation.isPending}
+                        className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown size={16} />
+                      </button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {editing?.id === entry.id ? (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="text"
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          className="input-field py-1"
+                          autoFocus
+                        />
+                        <button type="button" onClick={handleRename} disabled={renameMutation.isPending} className="text-green-600 hover:text-green-800 disabled:opacity-50" title="Save">
+                          <Check size={16} />
+                        </button>
+                        <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600" title="Cancel">
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <span className={entry.is_active ? 'text-gray-900' : 'text-gray-400'}>{entry.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => setEditing({ id: entry.id, name: entry.name })}
+                          className="text-gray-400 hover:text-green-600"
+                          title={`Rename ${singular}`}
+                        >
+                          <Edit size={14} />
+                        </button>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={entry.is_active}
+                      onCheckedChange={(checked) => saveMutation.mutate([{ ...entry, is_active: checked }])}
+                      disabled={saveMutation.isPending}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReferenceLists = () => {
+  const [activeList, setActiveList] = useState<ReferenceListName>('campuses');
+  const current = REFERENCE_LISTS.find(entry => entry.list === activeList);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">Reference Lists</h2>
+        <p className="text-gray-600">
+          Campuses, programs and departments offered throughout the system. Inactive entries are hidden from new records but kept on old ones.
+        </p>
+      </div>
+
+      <div className="flex space-x-2">
+        {REFERENCE_LISTS.map(({ list, label }) => (
+          <button
+            key={list}
+            type="button"
+            onClick={() => setActiveList(list)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              activeList === list ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-500">{current.description}</p>
+
+      <ReferenceListEditor key={activeList} list={activeList} singular={current.singular} />
+    </div>
+  );
+};
+
+export default ReferenceLists;
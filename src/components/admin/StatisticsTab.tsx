@@ -1,12 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, Legend } from 'recharts';
-import { Users, FileText, TrendingUp, Calendar, School, BookOpen, X, Filter } from 'lucide-react';
+import { Users, FileText, TrendingUp, Calendar, School, BookOpen, X, Filter, Clock } from 'lucide-react';
 import { supabase } from '../../integrations/supabase/client';
-
-interface StatisticsTabProps {
-  userRole?: 'Admin' | 'Reader' | null;
-}
+import { useUserRole } from '../../hooks/useUserRole';
+import { averageSessionMinutes, formatDuration, HourlyOccupancy, occupancyByHour } from '@/lib/visitSessions';
 
 interface StatsData {
   totalSubmissions: number;
@@ -17,9 +15,16 @@ interface StatsData {
   campusData: Array<{ name: string; value: number }>;
   monthlyData: Array<{ month: string; submissions: number }>;
   popularPrograms: Array<{ name: string; count: number; percentage: number }>;
+  itemsConsulted: number;
+  linkedItems: number;
+  mostConsultedTheses: Array<{ id: number; barcode: string; title: string; count: number }>;
+  checkedOutVisits: number;
+  averageSessionMinutes: number | null;
+  hourlyOccupancy: HourlyOccupancy[];
 }
 
-const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
+const StatisticsTab = () => {
+  const { userRole } = useUserRole();
   const [stats, setStats] = useState<StatsData>({
     totalSubmissions: 0,
     totalUsers: 0,
@@ -28,7 +33,13 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
     nonLpuStudents: 0,
     campusData: [],
     monthlyData: [],
-    popularPrograms: []
+    popularPrograms: [],
+    itemsConsulted: 0,
+    linkedItems: 0,
+    mostConsultedTheses: [],
+    checkedOutVisits: 0,
+    averageSessionMinutes: null,
+    hourlyOccupancy: []
   });
   const [loading, setLoading] = useState(true);
   const [selectedYear, setSelectedYear] = useState<string>('all');
@@ -43,7 +54,7 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
       setLoading(true);
 
       // Build date filter query
-      let query = supabase.from('thesis_submissions').select('*');
+      let query = supabase.from('thesis_submissions').select('*, visit_items(thesis_id, thesis_data(id, barcode, thesis_title))');
       
       // Apply date filtering
       if (selectedYear !== 'all') {
@@ -114,6 +125,30 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
         .sort((a, b) => b.count - a.count)
         .slice(0, 10); // Top 10 popular programs
 
+      // Every thesis consulted across all visits
+      const items = submissions?.flatMap(submission => submission.visit_items) || [];
+      const itemsConsulted = items.length;
+
+      // Most consulted theses, counted by linked catalog record rather than typed title
+      const thesisCount = items.reduce((acc, item) => {
+        if (item.thesis_data) {
+          const { id, barcode, thesis_title } = item.thesis_data;
+          acc[id] = acc[id] || { id, barcode, title: thesis_title, count: 0 };
+          acc[id].count += 1;
+        }
+        return acc;
+      }, {} as Record<number, { id: number; barcode: string; title: string; count: number }>);
+
+      const linkedItems = Object.values(thesisCount).reduce((sum, thesis) => sum + thesis.count, 0);
+      const mostConsultedTheses = Object.values(thesisCount)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 10);
+
+      // Time spent, from the visits that checked out
+      const checkedOutVisits = submissions?.filter(s => s.checked_out_at).length || 0;
+      const averageSession = averageSessionMinutes(submissions || []);
+      const hourlyOccupancy = occupancyByHour(submissions || []);
+
       // Fetch system users count if user is Admin
       let totalUsers = 0;
       if (userRole === 'Admin') {
@@ -134,7 +169,13 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
         nonLpuStudents,
         campusData,
         monthlyData,
-        popularPrograms
+        popularPrograms,
+        itemsConsulted,
+        linkedItems,
+        mostConsultedTheses,
+        checkedOutVisits,
+        averageSessionMinutes: averageSession,
+        hourlyOccupancy
       });
     } catch (error) {
       console.error('Error fetching statistics:', error);
@@ -313,8 +354,11 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
                   <FileText className="h-6 w-6 text-blue-600" />
                 </div>
                 <div className="flex-1">
-                  <div className="text-sm text-gray-600 mb-1">Total Submissions</div>
+                  <div className="text-sm text-gray-600 mb-1">Total Visits</div>
                   <div className="text-3xl font-bold text-gray-800">{stats.totalSubmissions}</div>
+                  <div className="text-sm text-blue-600">
+                    {stats.itemsConsulted} {stats.itemsConsulted === 1 ? 'thesis' : 'theses'} consulted
+                  </div>
                 </div>
               </div>
             </div>
@@ -442,13 +486,87 @@ const StatisticsTab: React.FC<StatisticsTabProps> = ({ userRole }) => {
           </LineChart>
         </ResponsiveContainer>
       </div>
+      {/* Time Spent and Occupancy */}
+      <div className="card-hover p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Occupancy by Hour of Day</h3>
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center justify-center w-10 h-10 bg-red-100 rounded-lg">
+              <Clock className="h-5 w-5 text-red-600" />
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Average Time Spent</div>
+              <div className="text-xl font-bold text-gray-800">
+                {stats.averageSessionMinutes !== null ? formatDuration(stats.averageSessionMinutes) : '-'}
+              </div>
+              <div className="text-xs text-gray-500">
+                from {stats.checkedOutVisits} of {stats.totalSubmissions} visits that checked out
+              </div>
+            </div>
+          </div>
+        </div>
+        {stats.hourlyOccupancy.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <Clock className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p className="text-sm">No visits in this period</p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={stats.hourlyOccupancy}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="average" name="Average visitors" fill="#2563eb" />
+              <Bar dataKey="peak" name="Peak visitors" fill="#dc2626" />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+      {/* Most Consulted Theses */}
+      <div className="card-hover p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Most Consulted Theses</h3>
+          <span className="text-sm text-gray-500">
+            {stats.linkedItems} of {stats.itemsConsulted} consulted theses linked to the catalog
+          </span>
+        </div>
+        {stats.mostConsultedTheses.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <BookOpen className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p className="text-sm">No consulted theses linked to catalog records yet</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {stats.mostConsultedTheses.map((thesis, index) => (
+              <div key={thesis.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-sm font-bold text-gray-400 w-6">{index + 1}</span>
+                  <span className="text-sm font-mono text-blue-600 bg-blue-50 px-2 py-1 rounded">
+                    {thesis.barcode}
+                  </span>
+                  <span className="text-sm text-gray-800 truncate" title={thesis.title}>
+                    {thesis.title}
+                  </span>
+                </div>
+                <span className="text-sm font-semibold text-gray-800 ml-4">
+                  {thesis.count} {thesis.count === 1 ? 'visit' : 'visits'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
       {/* Summary Info */}
       <div className="card-hover p-6">
         <h3 className="text-lg font-semibold text-gray-800 mb-4">Quick Summary</h3>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
           <div className="bg-gray-50 p-4 rounded-lg">
-            <div className="font-medium text-gray-800">Total Submissions</div>
-            <div className="text-gray-600">{stats.totalSubmissions} thesis records</div>
+            <div className="font-medium text-gray-800">Total Visits</div>
+            <div className="text-gray-600">
+              {stats.totalSubmissions} visits, {stats.itemsConsulted} theses consulted
+            </div>
           </div>
           <div className="bg-gray-50 p-4 rounded-lg">
             <div className="font-medium text-gray-800">Student Distribution</div>
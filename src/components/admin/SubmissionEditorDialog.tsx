@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useReferenceList } from '@/hooks/useReferenceList';
+import { activeNames } from '@/lib/referenceLists';
+import {
+  emptySubmission,
+  SubmissionFormValues,
+  submissionSchema,
+  SubmissionValues,
+  USER_TYPES,
+} from '@/lib/submissionSchema';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+
+export interface EditableSubmission {
+  id: string;
+  full_name: string;
+  user_type: string;
+  student_number: string | null;
+  school: string | null;
+  campus: string;
+  program: string | null;
+}
+
+interface SubmissionEditorDialogProps {
+  submission: EditableSubmission | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Inactive list entries are offered only to the record that already uses them
+const withCurrent = (options: string[], current: string | null) =>
+  current && !options.includes(current) ? [...options, current] : options;
+
+const SubmissionEditorDialog: React.FC<SubmissionEditorDialogProps> = ({
+  submission,
+  onOpenChange,
+  onSaved
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { data: campuses = [] } = useReferenceList('campuses');
+  const { data: programs = [] } = useReferenceList('programs');
+
+  const form = useForm<SubmissionFormValues, unknown, SubmissionValues>({
+    resolver: zodResolver(submissionSchema),
+    defaultValues: emptySubmission(),
+  });
+  const userType = form.watch('user_type');
+
+  // Load the record being edited each time the dialog opens
+  useEffect(() => {
+    if (!submission) return;
+    form.reset({
+      user_type: submission.user_type === 'Non-LPU Student' ? 'Non-LPU Student' : 'LPU Student',
+      full_name: submission.full_name,
+      student_number: submission.student_number ?? '',
+      school: submission.school ?? '',
+      campus: submission.campus,
+      program: submission.program ?? '',
+    });
+  }, [submission, form]);
+
+  const handleSave = async (values: SubmissionValues) => {
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('thesis_submissions')
+        .update(values)
+        .eq('id', submission.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Record Updated",
+        description: `The visit by ${values.full_name} has been saved.`,
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating record:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update record.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const campusOptions = withCurrent(activeNames(campuses), submission?.campus ?? null);
+  const programOptions = withCurrent(activeNames(programs), submission?.program ?? null);
+
+  return (
+    <Dialog open={submission !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Record</DialogTitle>
+          <DialogDescription>Correct the visitor's details. Consulted theses are not changed.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4" noValidate>
+            <FormField
+              control={form.control}
+              name="user_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>User Type</FormLabel>
+                  <FormControl>
+                    <select {...field} className="select-field">
+                      {USER_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="full_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <input type="text" {...field} className="input-field" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              key={userType}
+              name={userType === 'LPU Student' ? 'student_number' : 'school'}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{userType === 'LPU Student' ? 'Student Number' : 'School'}</FormLabel>
+                  <FormControl>
+                    <input type="text" {...field} className="input-field" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="campus"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Campus</FormLabel>
+                    <FormControl>
+                      <select {...field} className="select-field">
+                        <option value="">Select Campus</option>
+                        {campusOptions.map(campus => (
+                          <option key={campus} value={campus}>{campus}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {userType === 'LPU Student' && (
+                <FormField
+                  control={form.control}
+                  name="program"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Program</FormLabel>
+                      <FormControl>
+                        <select {...field} className="select-field">
+                          <option value="">Select Program</option>
+                          {programOptions.map(program => (
+                            <option key={program} value={program}>{program}</option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <DialogFooter>
+              <button
+                type="button"
+                onClick={() => onOpenChange(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isSaving}
+              >
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SubmissionEditorDialog;
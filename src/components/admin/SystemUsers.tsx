@@ -3,6 +3,7 @@ import { Plus, Search, Edit, Trash2, Shield, User, Mail, Calendar } from 'lucide
 import { supabase } from '../../integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '../../hooks/useAuth';
+import KioskPinSettings from './KioskPinSettings';
 
 interface SystemUser {
   id: string;
@@ -427,6 +428,8 @@ const SystemUsers = () => {
           <div className="text-sm text-gray-600">Inactive Users</div>
         </div>
       </div>
+
+      <KioskPinSettings />
     </div>
   );
 };
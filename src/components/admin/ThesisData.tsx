@@ -1,64 +1,196 @@
 
-import React, { useState } from 'react';
-import { Upload, Search, Plus } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Upload, Plus, CheckCircle, Archive } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ImportSummary } from '@/lib/thesisImport';
+import { STATUS_STYLES, type ThesisStatus } from '@/lib/thesisStatus';
+import {
+  CATALOG_PAGE_SIZE,
+  CatalogQuery,
+  hasCatalogFilters,
+  parseCatalogQuery,
+  SortColumn,
+  writeCatalogQuery,
+} from '@/lib/thesisCatalogQuery';
 import CSVUploadSection from './thesis/CSVUploadSection';
 import ThesisDataTable from './thesis/ThesisDataTable';
+import ThesisCatalogFilters from './thesis/ThesisCatalogFilters';
+import ThesisTablePagination from './thesis/ThesisTablePagination';
+import ThesisEditorDialog from './thesis/ThesisEditorDialog';
+import ThesisTrash from './thesis/ThesisTrash';
+import { useReferenceList } from '@/hooks/useReferenceList';
+import { useUserRole } from '@/hooks/useUserRole';
+import { activeNames } from '@/lib/referenceLists';
 
-interface ThesisRecord {
-  id: number;
-  barcode: string;
-  thesis_title: string;
-  authors: string[];
-  department: string;
-  publication_year: number;
-  upload_date: string;
-  last_modified: string;
-  is_deleted: boolean;
-}
+type ThesisRecord = Tables<'thesis_data'>;
+
+type ThesisView = 'upload' | 'manage' | 'trash';
 
 const ThesisData = () => {
-  const [activeView, setActiveView] = useState<'upload' | 'manage'>('upload');
-  const [searchTerm, setSearchTerm] = useState('');
+  const { userRole } = useUserRole();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingThesis, setEditingThesis] = useState<ThesisRecord | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch thesis data from the new thesis_data table
-  const { data: thesesData = [], isLoading } = useQuery({
-    queryKey: ['thesis-data'],
+  // The view and the catalog filters live in the URL so they can be bookmarked
+  const viewParam = searchParams.get('view');
+  const activeView: ThesisView = viewParam === 'manage' || viewParam === 'trash' ? viewParam : 'upload';
+  const catalogQuery = parseCatalogQuery(searchParams);
+
+  const setActiveView = (view: ThesisView) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      next.set('view', view);
+      return next;
+    });
+  };
+
+  const updateCatalogQuery = useCallback((changes: Partial<CatalogQuery>) => {
+    setSearchParams(params => {
+      const current = parseCatalogQuery(params);
+      // Any change other than paging starts again from the first page
+      const page = 'page' in changes ? changes.page : 1;
+      return writeCatalogQuery(params, { ...current, ...changes, page });
+    }, { replace: !('page' in changes) });
+    setSelectedIds([]);
+  }, [setSearchParams]);
+
+  const handleSortChange = (column: SortColumn) => {
+    updateCatalogQuery({
+      sort: column,
+      direction: catalogQuery.sort === column && catalogQuery.direction === 'asc' ? 'desc' : 'asc',
+    });
+  };
+
+  // Fetch one page of the catalog; filtering, sorting and paging run in the database
+  const { data: catalogPage, isLoading } = useQuery({
+    queryKey: ['thesis-data', 'catalog', catalogQuery],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('thesis_data')
-        .select('*')
-        .eq('is_deleted', false)
-        .order('upload_date', { ascending: false });
-      
+      const { search, status, department, yearFrom, yearTo, sort, direction, page } = catalogQuery;
+      const from = (page - 1) * CATALOG_PAGE_SIZE;
+
+      // Searching goes through the ranked full-text RPC, which already
+      // returns the best matches first
+      let query = search.trim()
+        ? supabase.rpc('search_theses', { search_query: search.trim() }, { count: 'exact' })
+        : supabase.from('thesis_data').select('*', { count: 'exact' });
+
+      query = query.eq('is_deleted', false);
+      if (status) query = query.eq('status', status);
+      if (department) query = query.eq('department', department);
+      if (yearFrom !== null) query = query.gte('publication_year', yearFrom);
+      if (yearTo !== null) query = query.lte('publication_year', yearTo);
+
+      if (sort) {
+        query = query.order(sort, { ascending: direction === 'asc' }).order('id', { ascending: true });
+      } else if (!search.trim()) {
+        query = query.order('upload_date', { ascending: false }).order('id', { ascending: true });
+      }
+
+      const { data, count, error } = await query.range(from, from + CATALOG_PAGE_SIZE - 1);
+
       if (error) {
         console.error('Error fetching thesis data:', error);
         throw error;
       }
-      
-      return data || [];
+
+      return { theses: data || [], totalCount: count ?? 0 };
     },
+    placeholderData: keepPreviousData,
   });
 
-  // Filter theses based on search term
-  const filteredTheses = thesesData.filter(thesis =>
-    thesis.thesis_title?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    thesis.authors?.some(author => author.toLowerCase().includes(searchTerm.toLowerCase())) ||
-    thesis.department?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    thesis.barcode?.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const theses = catalogPage?.theses ?? [];
+  const totalCount = catalogPage?.totalCount ?? 0;
+
+  // Bulk actions only apply to selected rows on the current page
+  const visibleSelectedIds = selectedIds.filter(id => theses.some(thesis => thesis.id === id));
+
+  // New and edited theses pick from the admin-managed department list. The
+  // filter also offers inactive entries, which older records may still use.
+  const { data: departmentList = [], isSuccess: departmentsLoaded } = useReferenceList('departments');
+  const departments = departmentList.map(entry => entry.name);
+
+  // Soft delete: the row stays in thesis_data so linked submissions keep their reference
+  const deleteMutation = useMutation({
+    mutationFn: async (thesis: ThesisRecord) => {
+      const { error } = await supabase
+        .from('thesis_data')
+        .update({ is_deleted: true })
+        .eq('id', thesis.id);
 
-  const handleUploadSuccess = (recordCount: number) => {
+      if (error) {
+        console.error('Error deleting thesis:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, thesis) => {
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+      toast({
+        title: "Moved to Trash",
+        description: `"${thesis.thesis_title}" can be restored from the Trash view.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete thesis record.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ ids, status }: { ids: number[]; status: ThesisStatus }) => {
+      const { error } = await supabase
+        .from('thesis_data')
+        .update({ status })
+        .in('id', ids);
+
+      if (error) {
+        console.error('Error updating thesis status:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { ids, status }) => {
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+      toast({
+        title: "Status Updated",
+        description: `${ids.length} thesis record(s) marked as ${STATUS_STYLES[status].label.toLowerCase()}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update thesis status.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (thesis: ThesisRecord | null) => {
+    setEditingThesis(thesis);
+    setIsEditorOpen(true);
+  };
+
+  const handleDelete = (thesis: ThesisRecord) => {
+    if (!confirm(`Delete "${thesis.thesis_title}" (${thesis.barcode})?`)) return;
+    deleteMutation.mutate(thesis);
+  };
+
+  const handleUploadSuccess = ({ counts }: ImportSummary) => {
     toast({
       title: "Upload Successful",
-      description: `Successfully uploaded ${recordCount} thesis records.`,
+      description: `Created ${counts.created}, updated ${counts.updated}, unchanged ${counts.unchanged}, rejected ${counts.rejected} thesis records. New records are saved as drafts until published.`,
     });
     queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
-    setActiveView('manage');
   };
 
   const handleUploadError = (error: string) => {
@@ -98,6 +230,16 @@ const ThesisData = () => {
           >
             Manage Data
           </button>
+          <button
+            onClick={() => setActiveView('trash')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              activeView === 'trash'
+                ? 'bg-red-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Trash
+          </button>
         </div>
       </div>
 
@@ -106,33 +248,78 @@ const ThesisData = () => {
           onUploadSuccess={handleUploadSuccess}
           onUploadError={handleUploadError}
         />
+      ) : activeView === 'trash' ? (
+        <ThesisTrash canPurge={userRole === 'Admin'} />
       ) : (
         <div className="space-y-6">
-          {/* Search and Actions */}
+          {/* Filters and Actions */}
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-            <div className="relative flex-1 max-w-md">
-              <Search className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Search thesis records or barcodes..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="input-field pl-10"
-              />
-            </div>
-            <button className="btn-primary flex items-center space-x-2">
+            <ThesisCatalogFilters
+              query={catalogQuery}
+              departments={departments}
+              onChange={updateCatalogQuery}
+            />
+            <button
+              onClick={() => openEditor(null)}
+              className="btn-primary flex items-center space-x-2 whitespace-nowrap"
+            >
               <Plus size={16} />
               <span>Add New Thesis</span>
             </button>
           </div>
 
+          {visibleSelectedIds.length > 0 && (
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3">
+              <span className="text-sm text-gray-700">{visibleSelectedIds.length} selected</span>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => statusMutation.mutate({ ids: visibleSelectedIds, status: 'published' })}
+                  disabled={statusMutation.isPending}
+                  className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <CheckCircle size={16} />
+                  <span>Publish</span>
+                </button>
+                <button
+                  onClick={() => statusMutation.mutate({ ids: visibleSelectedIds, status: 'archived' })}
+                  disabled={statusMutation.isPending}
+                  className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Archive size={16} />
+                  <span>Archive</span>
+                </button>
+              </div>
+            </div>
+          )}
+
           <ThesisDataTable 
-            theses={filteredTheses}
+            theses={theses}
             isLoading={isLoading}
-            searchTerm={searchTerm}
+            isFiltered={hasCatalogFilters(catalogQuery)}
+            sort={catalogQuery.sort}
+            direction={catalogQuery.direction}
+            onSortChange={handleSortChange}
+            selectedIds={visibleSelectedIds}
+            onSelectionChange={setSelectedIds}
+            onEdit={openEditor}
+            onDelete={handleDelete}
+          />
+
+          <ThesisTablePagination
+            page={catalogQuery.page}
+            pageSize={CATALOG_PAGE_SIZE}
+            totalCount={totalCount}
+            onPageChange={(page) => updateCatalogQuery({ page })}
           />
         </div>
       )}
+
+      <ThesisEditorDialog
+        open={isEditorOpen}
+        thesis={editingThesis}
+        departments={departmentsLoaded ? activeNames(departmentList) : null}
+        onOpenChange={setIsEditorOpen}
+      />
     </div>
   );
 };
@@ -1,8 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Filter, Download, Eye, Edit, Trash2, X, Calendar, MapPin } from 'lucide-react';
+import { Search, Filter, Download, Eye, Edit, Trash2, X, Calendar, MapPin, GraduationCap } from 'lucide-react';
 import { supabase } from '../../integrations/supabase/client';
 import { useToast } from '../../hooks/use-toast';
+import { useReferenceList } from '../../hooks/useReferenceList';
+import { useUserRole } from '../../hooks/useUserRole';
+import { toCSV } from '@/lib/csv';
+import SubmissionEditorDialog from './SubmissionEditorDialog';
+
+interface VisitItem {
+  id: string;
+  position: number;
+  thesis_title: string;
+  thesis_id: number | null;
+  thesis_data: { barcode: string; thesis_title: string } | null;
+}
 
 interface ThesisSubmission {
   id: string;
@@ -12,26 +24,37 @@ interface ThesisSubmission {
   school: string | null;
   campus: string;
   program: string | null;
-  thesis_title: string;
   submission_date: string;
+  visit_items: VisitItem[];
 }
 
-interface UserRecordsProps {
-  userRole?: 'Admin' | 'Reader' | null;
-}
+// Titles a visit consulted, in the order they were logged
+const itemTitles = (record: ThesisSubmission) => record.visit_items.map(item => item.thesis_title).join('; ');
+
+const itemMatches = (record: ThesisSubmission, searchLower: string) =>
+  record.visit_items.some(item =>
+    item.thesis_title.toLowerCase().includes(searchLower) ||
+    (item.thesis_data?.barcode || '').toLowerCase().includes(searchLower)
+  );
 
-const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
+const UserRecords = () => {
+  const { userRole } = useUserRole();
   const [searchTerm, setSearchTerm] = useState('');
   const [searchField, setSearchField] = useState('all');
   const [filterType, setFilterType] = useState('all');
   const [campusFilter, setCampusFilter] = useState('all');
+  const [programFilter, setProgramFilter] = useState('all');
   const [dateFilter, setDateFilter] = useState('');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
   const [sortBy, setSortBy] = useState('submission_date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [records, setRecords] = useState<ThesisSubmission[]>([]);
   const [loading, setLoading] = useState(true);
+  const [editingRecord, setEditingRecord] = useState<ThesisSubmission | null>(null);
   const { toast } = useToast();
+  // Inactive entries stay listed so older records can still be filtered
+  const { data: campuses = [] } = useReferenceList('campuses');
+  const { data: programs = [] } = useReferenceList('programs');
 
   useEffect(() => {
     console.log('UserRecords component mounted');
@@ -51,6 +74,18 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
           fetchRecords();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'visit_items'
+        },
+        (payload) => {
+          console.log('Real-time update received:', payload);
+          fetchRecords();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -66,7 +101,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
       
       const { data, error } = await supabase
         .from('thesis_submissions')
-        .select('*')
+        .select('*, visit_items(id, position, thesis_title, thesis_id, thesis_data(barcode, thesis_title))')
         .order('submission_date', { ascending: false });
 
       if (error) {
@@ -74,7 +109,10 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
         throw error;
       }
 
-      setRecords(data || []);
+      setRecords((data || []).map(record => ({
+        ...record,
+        visit_items: [...record.visit_items].sort((a, b) => a.position - b.position)
+      })));
       
       if (data && data.length > 0) {
         toast({
@@ -132,8 +170,6 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
     }
   };
 
-  const uniqueCampuses = Array.from(new Set(records.map(record => record.campus))).sort();
-
   const filteredAndSortedRecords = records
     .filter(record => {
       let matchesSearch = true;
@@ -151,14 +187,14 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
             matchesSearch = (record.program || '').toLowerCase().includes(searchLower);
             break;
           case 'thesis_title':
-            matchesSearch = record.thesis_title.toLowerCase().includes(searchLower);
+            matchesSearch = itemMatches(record, searchLower);
             break;
           default:
             matchesSearch = record.full_name.toLowerCase().includes(searchLower) ||
-                           record.thesis_title.toLowerCase().includes(searchLower) ||
                            (record.student_number || '').toLowerCase().includes(searchLower) ||
                            (record.school || '').toLowerCase().includes(searchLower) ||
-                           (record.program || '').toLowerCase().includes(searchLower);
+                           (record.program || '').toLowerCase().includes(searchLower) ||
+                           itemMatches(record, searchLower);
         }
       }
 
@@ -168,6 +204,8 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
 
       const matchesCampus = campusFilter === 'all' || record.campus === campusFilter;
 
+      const matchesProgram = programFilter === 'all' || record.program === programFilter;
+
       let matchesDate = true;
       const recordDate = new Date(record.submission_date);
       
@@ -187,7 +225,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
         }
       }
 
-      return matchesSearch && matchesUserType && matchesCampus && matchesDate;
+      return matchesSearch && matchesUserType && matchesCampus && matchesProgram && matchesDate;
     })
     .sort((a, b) => {
       let comparison = 0;
@@ -203,7 +241,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
           comparison = a.campus.localeCompare(b.campus);
           break;
         case 'thesis_title':
-          comparison = a.thesis_title.localeCompare(b.thesis_title);
+          comparison = itemTitles(a).localeCompare(itemTitles(b));
           break;
         case 'user_type':
           comparison = a.user_type.localeCompare(b.user_type);
@@ -216,19 +254,21 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
     });
 
   const handleExport = () => {
-    const headers = ['Name', 'Type', 'ID/School', 'Campus', 'Program', 'Thesis Title', 'Date'];
-    const csvContent = [
-      headers.join(','),
-      ...filteredAndSortedRecords.map(record => [
+    const headers = ['Name', 'Type', 'ID/School', 'Campus', 'Program', 'Thesis Title', 'Catalog Barcode', 'Date'];
+    // One line per consulted thesis, repeating the visitor's details
+    const csvContent = toCSV([
+      headers,
+      ...filteredAndSortedRecords.flatMap(record => record.visit_items.map(item => [
         record.full_name,
         record.user_type,
         record.student_number || record.school || '',
         record.campus,
         record.program || '',
-        record.thesis_title,
+        item.thesis_title,
+        item.thesis_data?.barcode || '',
         new Date(record.submission_date).toLocaleDateString()
-      ].map(field => `"${field}"`).join(','))
-    ].join('\n');
+      ]))
+    ]);
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -321,7 +361,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
         </div>
 
         {/* Second Row - Filters and Sorting */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
           {/* User Type Filter */}
           <div className="flex items-center space-x-2">
             <Filter className="h-5 w-5 text-gray-400" />
@@ -345,8 +385,23 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
               className="select-field w-full"
             >
               <option value="all">All Campuses</option>
-              {uniqueCampuses.map(campus => (
-                <option key={campus} value={campus}>{campus}</option>
+              {campuses.map(campus => (
+                <option key={campus.id} value={campus.name}>{campus.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Program Filter */}
+          <div className="flex items-center space-x-2">
+            <GraduationCap className="h-5 w-5 text-gray-400" />
+            <select
+              value={programFilter}
+              onChange={(e) => setProgramFilter(e.target.value)}
+              className="select-field w-full"
+            >
+              <option value="all">All Programs</option>
+              {programs.map(program => (
+                <option key={program.id} value={program.name}>{program.name}</option>
               ))}
             </select>
           </div>
@@ -419,7 +474,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
       </div>
 
       {/* Search Status */}
-      {(searchTerm || filterType !== 'all' || campusFilter !== 'all' || dateFilter || dateRange.start || dateRange.end) && (
+      {(searchTerm || filterType !== 'all' || campusFilter !== 'all' || programFilter !== 'all' || dateFilter || dateRange.start || dateRange.end) && (
         <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
           <div className="flex items-center space-x-2 text-sm text-blue-800">
             <Search size={16} />
@@ -440,6 +495,9 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
               {campusFilter !== 'all' && (
                 <span> at {campusFilter}</span>
               )}
+              {programFilter !== 'all' && (
+                <span> in {programFilter}</span>
+              )}
               {dateFilter && (
                 <span> on {new Date(dateFilter).toLocaleDateString()}</span>
               )}
@@ -454,6 +512,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
               setSearchField('all');
               setFilterType('all');
               setCampusFilter('all');
+              setProgramFilter('all');
               setDateFilter('');
               setDateRange({ start: '', end: '' });
             }}
@@ -486,7 +545,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
               Program
             </div>
             <div className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Thesis Title
+              Theses Consulted
             </div>
             <div className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Date
@@ -545,9 +604,28 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
                     <div className="text-sm text-gray-900 truncate">
                       {record.program || '-'}
                     </div>
-                    <div className="text-sm text-gray-900 truncate" title={record.thesis_title}>
-                      {record.thesis_title}
-                    </div>
+                    <ol className="min-w-0 space-y-2">
+                      {record.visit_items.map((item, index) => (
+                        <li key={item.id} className="flex items-start space-x-2">
+                          <span className="text-xs font-bold text-gray-400 mt-0.5">{index + 1}.</span>
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-900 truncate" title={item.thesis_title}>
+                              {item.thesis_title}
+                            </div>
+                            {item.thesis_data ? (
+                              <span
+                                className="inline-flex mt-1 px-2 py-0.5 text-xs font-mono text-blue-600 bg-blue-50 rounded"
+                                title={`Catalog item: ${item.thesis_data.thesis_title}`}
+                              >
+                                {item.thesis_data.barcode}
+                              </span>
+                            ) : (
+                              <span className="text-xs text-gray-400">Not in catalog</span>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
                     <div className="text-sm text-gray-900">
                       {new Date(record.submission_date).toLocaleDateString()}
                     </div>
@@ -561,6 +639,7 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
                         </button>
                         <button 
                           className="text-green-600 hover:text-green-900"
+                          onClick={() => setEditingRecord(record)}
                           title="Edit record"
                         >
                           <Edit size={16} />
@@ -582,6 +661,12 @@ const UserRecords: React.FC<UserRecordsProps> = ({ userRole }) => {
         </div>
       </div>
 
+      <SubmissionEditorDialog
+        submission={editingRecord}
+        onOpenChange={(open) => !open && setEditingRecord(null)}
+        onSaved={fetchRecords}
+      />
+
       {/* Pagination Info */}
       {filteredAndSortedRecords.length > 0 && (
         <div className="flex items-center justify-between text-sm text-gray-700 mt-4">
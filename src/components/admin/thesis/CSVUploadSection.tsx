@@ -1,10 +1,56 @@
 
-import React, { useState } from 'react';
-import { Upload, FileText, Download } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Upload, Download, X, ArrowLeft, RotateCcw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { Progress } from '@/components/ui/progress';
+import { useReferenceList } from '@/hooks/useReferenceList';
+import { buildImportTemplate } from '@/lib/importTemplate';
+import { activeNames } from '@/lib/referenceLists';
+import { detectImportFormat, ImportSheet, readImportFile } from '@/lib/importFiles';
+import {
+  AUTHOR_DELIMITERS,
+  buildImportRows,
+  classifyImportRows,
+  ColumnMapping,
+  ImportSummary,
+  missingRequiredFields,
+  suggestColumnMapping,
+  summarizeImport,
+  ThesisImportRow,
+  ThesisRow,
+} from '@/lib/thesisImport';
+import {
+  clearImportJob,
+  createImportJob,
+  ImportProgress,
+  loadImportJob,
+  runImportJob,
+  ThesisImportJob,
+} from '@/lib/thesisImportJob';
+import ColumnMappingStep from './ColumnMappingStep';
+import ImportPreviewTable from './ImportPreviewTable';
+import ImportSummaryPanel from './ImportSummaryPanel';
+import ImportQueueList, { QueuedFile } from './ImportQueueList';
+import UploadDropZone from './UploadDropZone';
+
+// Keeps the barcode lookup's `in (...)` filter within URL length limits
+const LOOKUP_CHUNK_SIZE = 100;
+
+// Short validation note for the queue, using the suggested column mapping
+const describeSheet = (sheet: ImportSheet, authorDelimiter: string, departments: string[]) => {
+  const mapping = suggestColumnMapping(sheet.table[0]);
+  const missing = missingRequiredFields(mapping);
+  if (missing.length > 0) {
+    return `${sheet.table.length - 1} rows; map ${missing.map(({ label }) => label).join(' and ')} to continue`;
+  }
+
+  const rows = buildImportRows(sheet.table, { authorDelimiter, mapping, departments });
+  const invalid = rows.filter(row => row.errors.length > 0).length;
+  return `${rows.length} rows${invalid > 0 ? `, ${invalid} with errors` : ', all valid'}`;
+};
 
 interface CSVUploadSectionProps {
-  onUploadSuccess: (recordCount: number) => void;
+  onUploadSuccess: (summary: ImportSummary) => void;
   onUploadError: (error: string) => void;
 }
 
@@ -13,91 +59,229 @@ const CSVUploadSection: React.FC<CSVUploadSectionProps> = ({
   onUploadError
 }) => {
   const [isUploading, setIsUploading] = useState(false);
+  const [isPreparingTemplate, setIsPreparingTemplate] = useState(false);
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [authorDelimiter, setAuthorDelimiter] = useState(AUTHOR_DELIMITERS[0].value);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  // An interrupted import left in localStorage, offered for resuming
+  const [pendingJob, setPendingJob] = useState<ThesisImportJob | null>(loadImportJob);
+  // Files are only checked once the department list has loaded, so a slow or
+  // failed fetch can't let unlisted departments through
+  const {
+    data: departmentList = [],
+    isSuccess: departmentsLoaded,
+    isError: departmentsFailed,
+  } = useReferenceList('departments');
+  const departments = useMemo(() => activeNames(departmentList), [departmentList]);
 
-  // Generate unique barcode
-  const generateBarcode = () => {
-    const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substr(2, 5);
-    return `THS-${timestamp}-${random}`.toUpperCase();
-  };
+  const activeFile = queue.find(file => file.id === activeId);
+  const fileName = activeFile?.fileName ?? '';
+  const sheets = activeFile?.sheets ?? [];
+  const table = sheets.find(sheet => sheet.name === sheetName)?.table ?? null;
 
-  // Parse CSV content
-  const parseCSV = (csvText: string) => {
-    const lines = csvText.trim().split('\n');
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    
-    // Find required column indices
-    const titleIndex = headers.findIndex(h => h.includes('title'));
-    const authorIndex = headers.findIndex(h => h.includes('author') || h.includes('name'));
-    const departmentIndex = headers.findIndex(h => h.includes('department') || h.includes('program'));
-    const yearIndex = headers.findIndex(h => h.includes('year'));
-    
-    if (titleIndex === -1 || authorIndex === -1) {
-      throw new Error('CSV must contain Title and Author columns');
-    }
-    
-    const records = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-      
-      if (values.length < 2) continue; // Skip empty lines
-      
-      const record = {
-        barcode: generateBarcode(),
-        thesis_title: values[titleIndex] || '',
-        authors: [values[authorIndex] || ''],
-        department: departmentIndex !== -1 ? values[departmentIndex] || 'Not Specified' : 'Not Specified',
-        publication_year: yearIndex !== -1 && values[yearIndex] ? parseInt(values[yearIndex]) : new Date().getFullYear()
-      };
-      
-      records.push(record);
+  // Re-derived whenever the mapping or author delimiter changes so the preview stays in sync
+  const { rows, buildError } = useMemo<{ rows: ThesisImportRow[]; buildError: string | null }>(() => {
+    if (!table || !mapping || step !== 'preview') return { rows: [], buildError: null };
+    try {
+      return { rows: buildImportRows(table, { authorDelimiter, mapping, departments }), buildError: null };
+    } catch (error) {
+      return { rows: [], buildError: error instanceof Error ? error.message : 'Failed to read file columns.' };
     }
-    
-    return records;
+  }, [table, mapping, authorDelimiter, departments, step]);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const percentComplete = progress && progress.totalBatches > 0
+    ? (progress.completedBatches / progress.totalBatches) * 100
+    : 100;
+
+  const updateQueuedFile = (id: string, changes: Partial<QueuedFile>) => {
+    setQueue(prev => prev.map(file => (file.id === id ? { ...file, ...changes } : file)));
   };
 
-  // Handle CSV file upload
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    
-    if (!file.name.endsWith('.csv')) {
-      onUploadError("Please upload a CSV file.");
-      return;
-    }
-    
-    setIsUploading(true);
-    
-    try {
-      const csvText = await file.text();
-      const records = parseCSV(csvText);
-      
-      if (records.length === 0) {
-        throw new Error('No valid records found in CSV');
+  const resetUpload = () => {
+    setActiveId(null);
+    setSheetName('');
+    setMapping(null);
+    setStep('map');
+  };
+
+  // Switching sheets starts the mapping over with that sheet's headers
+  const selectSheet = useCallback((name: string, available: ImportSheet[]) => {
+    const selected = available.find(sheet => sheet.name === name);
+    setSheetName(name);
+    setMapping(selected && selected.table.length > 0 ? suggestColumnMapping(selected.table[0]) : null);
+    setStep('map');
+  }, []);
+
+  const activateFile = useCallback((file: QueuedFile) => {
+    setActiveId(file.id);
+    selectSheet(file.sheets[0].name, file.sheets);
+  }, [selectSheet]);
+
+  // Files are read one after another; nothing is written until an import is committed
+  const handleFiles = async (files: File[]) => {
+    const added: QueuedFile[] = files.map((file, index) => ({
+      id: `${Date.now()}-${index}-${file.name}`,
+      fileName: file.name,
+      status: detectImportFormat(file.name) ? 'parsing' : 'failed',
+      sheets: [],
+      message: detectImportFormat(file.name) ? '' : 'Unsupported file type; use CSV, Excel (.xlsx) or JSON',
+    }));
+    setQueue(prev => [...prev, ...added]);
+
+    for (let i = 0; i < files.length; i++) {
+      if (added[i].status === 'failed') continue;
+
+      try {
+        const readSheets = (await readImportFile(files[i])).filter(sheet => sheet.table.length >= 2);
+
+        if (readSheets.length === 0) {
+          throw new Error('No valid records found in file');
+        }
+
+        updateQueuedFile(added[i].id, {
+          status: 'validated',
+          sheets: readSheets,
+          message: describeSheet(readSheets[0], authorDelimiter, departments),
+        });
+      } catch (error) {
+        console.error('File read error:', error);
+        updateQueuedFile(added[i].id, {
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Failed to process file.',
+        });
       }
-      
-      // Insert records into the thesis_data table
+    }
+  };
+
+  const handleRemoveFile = (id: string) => {
+    if (id === activeId) resetUpload();
+    setQueue(prev => prev.filter(file => file.id !== id));
+  };
+
+  // Open the next validated file once nothing is being reviewed
+  useEffect(() => {
+    if (activeId || isUploading) return;
+    const next = queue.find(file => file.status === 'validated');
+    if (next) activateFile(next);
+  }, [queue, activeId, isUploading, activateFile]);
+
+  // Load the catalog rows that already use any of the given barcodes
+  const fetchExistingTheses = async (barcodes: string[]) => {
+    const existing = new Map<string, ThesisRow>();
+
+    for (let i = 0; i < barcodes.length; i += LOOKUP_CHUNK_SIZE) {
       const { data, error } = await supabase
         .from('thesis_data')
-        .insert(records);
-      
+        .select('*')
+        .in('barcode', barcodes.slice(i, i + LOOKUP_CHUNK_SIZE));
+
       if (error) {
-        console.error('Error inserting data:', error);
+        console.error('Error looking up existing barcodes:', error);
         throw error;
       }
-      
-      onUploadSuccess(records.length);
-      
+
+      data?.forEach(thesis => existing.set(thesis.barcode, thesis));
+    }
+
+    return existing;
+  };
+
+  // Write a job's remaining batches, reporting progress as each one commits
+  // `queuedFileId` is the queued file being imported; null when resuming a saved job
+  const commitImportJob = async (job: ThesisImportJob, queuedFileId: string | null) => {
+    setIsUploading(true);
+    setProgress({ completedBatches: job.nextBatch, totalBatches: job.batches.length });
+
+    try {
+      const finishedJob = await runImportJob(job, setProgress);
+      const importSummary = summarizeImport(finishedJob.fileName, finishedJob.entries);
+      const { counts } = importSummary;
+      // Resumed jobs may belong to a file that failed earlier in this session
+      setQueue(prev => prev.map(file =>
+        file.id === queuedFileId || (file.status === 'failed' && file.fileName === finishedJob.fileName)
+          ? {
+              ...file,
+              status: 'imported',
+              message: `Created ${counts.created}, updated ${counts.updated}, unchanged ${counts.unchanged}, rejected ${counts.rejected}`,
+            }
+          : file
+      ));
+      onUploadSuccess(importSummary);
+      if (queuedFileId) resetUpload();
+      setPendingJob(null);
+      setSummary(importSummary);
     } catch (error) {
       console.error('Upload error:', error);
-      onUploadError(error instanceof Error ? error.message : "Failed to process CSV file.");
+      const message = error instanceof Error ? error.message : "Failed to process file.";
+      onUploadError(message);
+      if (queuedFileId) {
+        updateQueuedFile(queuedFileId, { status: 'failed', message });
+        resetUpload();
+      }
+      setPendingJob(loadImportJob());
     } finally {
       setIsUploading(false);
-      // Reset file input
-      event.target.value = '';
+      setProgress(null);
+    }
+  };
+
+  // Commit the validated rows from the preview, updating items whose barcode
+  // is already in the catalog instead of inserting duplicates
+  // Only one job is saved at a time, so an interrupted import has to be
+  // resumed or discarded before another one starts
+  const handleProcessUpload = async () => {
+    if (validRows.length === 0 || pendingJob || !departmentsLoaded) return;
+
+    setIsUploading(true);
+
+    let job: ThesisImportJob;
+    try {
+      const existing = await fetchExistingTheses(validRows.map(row => row.record.barcode));
+      const { entries, toWrite } = classifyImportRows(rows, existing);
+      job = createImportJob(fileName, entries, toWrite);
+    } catch (error) {
+      console.error('Upload error:', error);
+      onUploadError(error instanceof Error ? error.message : "Failed to process file.");
+      setIsUploading(false);
+      return;
+    }
+
+    await commitImportJob(job, activeId);
+  };
+
+  // The template lists the same departments the import accepts
+  const handleDownloadTemplate = async () => {
+    setIsPreparingTemplate(true);
+
+    try {
+      const blob = await buildImportTemplate(departments);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'thesis_import_template.xlsx';
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Template error:', error);
+      onUploadError("Failed to generate the import template.");
+    } finally {
+      setIsPreparingTemplate(false);
     }
   };
 
+  const handleDiscardJob = () => {
+    if (!confirm('Discard the interrupted import? Batches already committed will stay in the catalog.')) return;
+    clearImportJob();
+    setPendingJob(null);
+  };
+
   return (
     <div className="card-hover p-8">
       <div className="text-center">
@@ -106,44 +290,159 @@ const CSVUploadSection: React.FC<CSVUploadSectionProps> = ({
           Upload Thesis Data
         </h3>
         <p className="text-gray-600 mb-6">
-          Upload a CSV file containing thesis records to bulk import data
+          Upload a CSV, Excel or JSON file containing thesis records to bulk import data
         </p>
-        
-        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 hover:border-red-400 transition-colors cursor-pointer">
-          <input
-            type="file"
-            accept=".csv"
-            className="hidden"
-            id="csv-upload"
-            onChange={handleFileUpload}
-            disabled={isUploading}
-          />
-          <label htmlFor="csv-upload" className="cursor-pointer">
-            <div className="space-y-3">
-              <FileText className="mx-auto h-8 w-8 text-gray-400" />
-              <div>
-                <span className="text-red-600 font-medium">
-                  {isUploading ? 'Processing...' : 'Click to upload'}
-                </span>
-                {!isUploading && <span className="text-gray-600"> or drag and drop</span>}
+
+        {pendingJob && !isUploading && (
+          <div className="mb-6 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-3 text-left">
+            <div className="text-sm text-yellow-800">
+              The import of <span className="font-medium">{pendingJob.fileName}</span> was interrupted after{' '}
+              {pendingJob.nextBatch} of {pendingJob.batches.length} batches. Resume or discard it before starting
+              another import.
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => commitImportJob(pendingJob, null)}
+                className="btn-secondary flex items-center space-x-2"
+              >
+                <RotateCcw size={16} />
+                <span>Resume Import</span>
+              </button>
+              <button onClick={handleDiscardJob} className="text-sm text-gray-600 hover:text-gray-800">
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!departmentsLoaded && (
+          <p className={`mb-4 text-sm ${departmentsFailed ? 'text-red-600' : 'text-gray-500'}`}>
+            {departmentsFailed
+              ? 'The department list could not be loaded, so files cannot be checked. Reload the page to try again.'
+              : 'Loading the department list...'}
+          </p>
+        )}
+
+        <UploadDropZone onFiles={handleFiles} disabled={isUploading || !departmentsLoaded} />
+
+        {queue.length > 0 && (
+          <div className="mt-6">
+            <ImportQueueList
+              files={queue}
+              activeId={activeId}
+              disabled={isUploading}
+              onReview={(id) => {
+                const file = queue.find(queued => queued.id === id);
+                if (file) activateFile(file);
+              }}
+              onRemove={handleRemoveFile}
+            />
+          </div>
+        )}
+
+        {sheets.length > 1 && (
+          <div className="mt-6 flex items-center space-x-2 text-left">
+            <label htmlFor="import-sheet" className="text-sm font-medium text-gray-700">
+              Worksheet
+            </label>
+            <select
+              id="import-sheet"
+              value={sheetName}
+              onChange={(e) => selectSheet(e.target.value, sheets)}
+              className="select-field w-auto py-2"
+              disabled={isUploading}
+            >
+              {sheets.map(sheet => (
+                <option key={sheet.name} value={sheet.name}>
+                  {sheet.name} ({sheet.table.length - 1} rows)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {table && mapping && step === 'map' && (
+          <div className="mt-6">
+            <ColumnMappingStep
+              headers={table[0]}
+              sampleRow={table[1] || []}
+              mapping={mapping}
+              authorDelimiter={authorDelimiter}
+              onMappingChange={setMapping}
+              onAuthorDelimiterChange={setAuthorDelimiter}
+              onContinue={() => setStep('preview')}
+            />
+          </div>
+        )}
+
+        {buildError && (
+          <div className="mt-6 bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm text-red-800">
+            {buildError}
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="mt-6 space-y-3 text-left">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                <span className="font-medium">{fileName}</span>: {validRows.length} valid
+                {invalidCount > 0 && (
+                  <span className="text-red-600">, {invalidCount} with errors (will be skipped)</span>
+                )}
+              </div>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setStep('map')}
+                  className="text-gray-500 hover:text-gray-700 text-sm flex items-center space-x-1"
+                  disabled={isUploading}
+                >
+                  <ArrowLeft size={14} />
+                  <span>Edit Mapping</span>
+                </button>
+                <button
+                  onClick={() => activeId && handleRemoveFile(activeId)}
+                  className="text-gray-500 hover:text-gray-700 text-sm flex items-center space-x-1"
+                  disabled={isUploading}
+                >
+                  <X size={14} />
+                  <span>Remove File</span>
+                </button>
               </div>
-              <p className="text-sm text-gray-500">
-                CSV files only (Title, Author, Department/Program, Year)
-              </p>
             </div>
-          </label>
-        </div>
+            <ImportPreviewTable rows={rows} />
+          </div>
+        )}
+
+        {progress && (
+          <div className="mt-6 space-y-2 text-left">
+            <div className="flex justify-between text-sm text-gray-700">
+              <span>Importing batch {Math.min(progress.completedBatches + 1, progress.totalBatches)} of {progress.totalBatches}</span>
+              <span>{Math.round(percentComplete)}%</span>
+            </div>
+            <Progress value={percentComplete} className="h-2" />
+          </div>
+        )}
+
+        {summary && (
+          <ImportSummaryPanel summary={summary} onDismiss={() => setSummary(null)} />
+        )}
 
         <div className="mt-6 flex justify-center space-x-3">
-          <button 
-            className="btn-primary"
-            disabled={isUploading}
+          <button
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleProcessUpload}
+            disabled={isUploading || validRows.length === 0 || pendingJob !== null || !departmentsLoaded}
+            title={pendingJob ? 'Resume or discard the interrupted import first' : undefined}
           >
             {isUploading ? 'Processing...' : 'Process Upload'}
           </button>
-          <button className="btn-secondary flex items-center space-x-2">
+          <button
+            className="btn-secondary flex items-center space-x-2"
+            onClick={handleDownloadTemplate}
+            disabled={isPreparingTemplate || !departmentsLoaded}
+          >
             <Download size={16} />
-            <span>Download Template</span>
+            <span>{isPreparingTemplate ? 'Preparing...' : 'Download Template'}</span>
           </button>
         </div>
       </div>
@@ -0,0 +1,188 @@
+
+import React, { useState } from 'react';
+import { ArrowRight, Save, Trash2, Columns } from 'lucide-react';
+import {
+  AUTHOR_DELIMITERS,
+  ColumnMapping,
+  missingRequiredFields,
+  THESIS_IMPORT_FIELDS,
+  ThesisImportField,
+} from '@/lib/thesisImport';
+import {
+  applyMappingPreset,
+  deleteMappingPreset,
+  ImportMappingPreset,
+  loadMappingPresets,
+  saveMappingPreset,
+} from '@/lib/importPresets';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  sampleRow: string[];
+  mapping: ColumnMapping;
+  authorDelimiter: string;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onAuthorDelimiterChange: (delimiter: string) => void;
+  onContinue: () => void;
+}
+
+const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  headers,
+  sampleRow,
+  mapping,
+  authorDelimiter,
+  onMappingChange,
+  onAuthorDelimiterChange,
+  onContinue
+}) => {
+  const [presets, setPresets] = useState<ImportMappingPreset[]>(loadMappingPresets);
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  const missing = missingRequiredFields(mapping);
+
+  const handleFieldChange = (field: ThesisImportField, header: string) => {
+    onMappingChange({ ...mapping, [field]: header || null });
+  };
+
+  const handleLoadPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+
+    onMappingChange(applyMappingPreset(preset, headers));
+    onAuthorDelimiterChange(preset.authorDelimiter);
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    setPresets(saveMappingPreset({ name, mapping, authorDelimiter }));
+    setSelectedPreset(name);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || !confirm(`Delete the mapping preset "${selectedPreset}"?`)) return;
+
+    setPresets(deleteMappingPreset(selectedPreset));
+    setSelectedPreset('');
+  };
+
+  const sampleValue = (header: string | null) => {
+    if (!header) return '';
+    return sampleRow[headers.indexOf(header)] || '';
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="flex items-center space-x-2">
+        <Columns className="h-5 w-5 text-gray-400" />
+        <h4 className="text-md font-semibold text-gray-800">Map File Columns</h4>
+      </div>
+      <p className="text-sm text-gray-600">
+        Columns were matched automatically. Check each field and pick a different column if the guess is wrong.
+      </p>
+
+      {/* Presets */}
+      <div className="flex flex-col md:flex-row gap-3 bg-gray-50 p-3 rounded-lg">
+        <div className="flex items-center space-x-2 flex-1">
+          <select
+            value={selectedPreset}
+            onChange={(e) => handleLoadPreset(e.target.value)}
+            className="select-field py-2"
+          >
+            <option value="">{presets.length === 0 ? 'No saved presets' : 'Load a saved preset...'}</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+          {selectedPreset && (
+            <button
+              onClick={handleDeletePreset}
+              className="text-red-600 hover:text-red-900"
+              title="Delete preset"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 flex-1">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name, e.g. Registrar export"
+            className="input-field py-2"
+          />
+          <button
+            onClick={handleSavePreset}
+            className="btn-secondary flex items-center space-x-1 whitespace-nowrap disabled:opacity-50"
+            disabled={!presetName.trim()}
+          >
+            <Save size={14} />
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Field mapping */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {THESIS_IMPORT_FIELDS.map(({ field, label, required }) => (
+          <div key={field} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center px-4 py-3">
+            <div className="text-sm font-medium text-gray-700">
+              {label}
+              {required && <span className="text-red-600"> *</span>}
+            </div>
+            <select
+              value={mapping[field] || ''}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className={`select-field py-2 ${required && !mapping[field] ? 'border-red-400' : ''}`}
+            >
+              <option value="">— Not imported —</option>
+              {headers.map((header, index) => (
+                <option key={`${header}-${index}`} value={header}>{header}</option>
+              ))}
+            </select>
+            <div className="text-sm text-gray-500 truncate" title={sampleValue(mapping[field])}>
+              {sampleValue(mapping[field]) || <span className="text-gray-300">No sample</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <label htmlFor="author-delimiter" className="text-sm font-medium text-gray-700">
+          Multiple authors separated by
+        </label>
+        <select
+          id="author-delimiter"
+          value={authorDelimiter}
+          onChange={(e) => onAuthorDelimiterChange(e.target.value)}
+          className="select-field w-auto py-2"
+        >
+          {AUTHOR_DELIMITERS.map(delimiter => (
+            <option key={delimiter.value} value={delimiter.value}>{delimiter.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-red-600">
+          {missing.length > 0 && `Required: ${missing.map(({ label }) => label).join(', ')}`}
+        </span>
+        <button
+          onClick={onContinue}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={missing.length > 0}
+        >
+          <span>Preview Rows</span>
+          <ArrowRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
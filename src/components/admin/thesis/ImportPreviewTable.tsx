@@ -0,0 +1,79 @@
+
+import React from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { ThesisImportRow } from '@/lib/thesisImport';
+
+interface ImportPreviewTableProps {
+  rows: ThesisImportRow[];
+}
+
+const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({ rows }) => {
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Authors</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead>Year</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                <TableCell className="text-sm text-gray-500">{row.rowNumber}</TableCell>
+                <TableCell>
+                  <div className="text-sm font-medium text-gray-900 max-w-xs">
+                    {row.record.thesis_title || <span className="text-gray-400">—</span>}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1 max-w-xs">
+                    {row.record.authors.map((author, index) => (
+                      <span key={index} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-800 rounded-full">
+                        {author}
+                      </span>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-gray-900">{row.record.department}</TableCell>
+                <TableCell className="text-sm text-gray-900">{row.record.publication_year}</TableCell>
+                <TableCell>
+                  {row.errors.length === 0 ? (
+                    <span className="inline-flex items-center space-x-1 text-xs text-green-700">
+                      <CheckCircle size={14} />
+                      <span>Valid</span>
+                    </span>
+                  ) : (
+                    <ul className="space-y-1">
+                      {row.errors.map((error) => (
+                        <li key={error} className="flex items-start space-x-1 text-xs text-red-700">
+                          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                          <span>{error}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewTable;
@@ -0,0 +1,93 @@
+
+import React from 'react';
+import { AlertCircle, CheckCircle, FileText, Loader2, X } from 'lucide-react';
+import type { ImportSheet } from '@/lib/importFiles';
+
+export type QueuedFileStatus = 'parsing' | 'validated' | 'imported' | 'failed';
+
+export interface QueuedFile {
+  id: string;
+  fileName: string;
+  status: QueuedFileStatus;
+  sheets: ImportSheet[];
+  message: string;
+}
+
+interface ImportQueueListProps {
+  files: QueuedFile[];
+  activeId: string | null;
+  disabled?: boolean;
+  onReview: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<QueuedFileStatus, { label: string; className: string }> = {
+  parsing: { label: 'Parsing', className: 'bg-gray-100 text-gray-700' },
+  validated: { label: 'Validated', className: 'bg-blue-100 text-blue-800' },
+  imported: { label: 'Imported', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+const StatusIcon: React.FC<{ status: QueuedFileStatus }> = ({ status }) => {
+  switch (status) {
+    case 'parsing':
+      return <Loader2 size={16} className="animate-spin text-gray-500" />;
+    case 'imported':
+      return <CheckCircle size={16} className="text-green-600" />;
+    case 'failed':
+      return <AlertCircle size={16} className="text-red-600" />;
+    default:
+      return <FileText size={16} className="text-blue-600" />;
+  }
+};
+
+const ImportQueueList: React.FC<ImportQueueListProps> = ({ files, activeId, disabled = false, onReview, onRemove }) => {
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 text-left">
+      {files.map(file => (
+        <div
+          key={file.id}
+          className={`flex items-center justify-between px-4 py-3 ${file.id === activeId ? 'bg-red-50' : ''}`}
+        >
+          <div className="flex items-center space-x-3 min-w-0">
+            <StatusIcon status={file.status} />
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{file.fileName}</div>
+              {file.message && (
+                <div className={`text-xs truncate ${file.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {file.message}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center space-x-3 ml-4">
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[file.status].className}`}>
+              {STATUS_STYLES[file.status].label}
+            </span>
+            {file.status === 'validated' && file.id !== activeId && (
+              <button
+                onClick={() => onReview(file.id)}
+                className="text-sm text-blue-600 hover:text-blue-900"
+                disabled={disabled}
+              >
+                Review
+              </button>
+            )}
+            {file.status !== 'parsing' && (
+              <button
+                onClick={() => onRemove(file.id)}
+                className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                title="Remove from queue"
+                disabled={disabled && file.id === activeId}
+              >
+                <X size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ImportQueueList;
@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { Download, X } from 'lucide-react';
+import { ImportOutcome, ImportSummary, importSummaryToCSV } from '@/lib/thesisImport';
+
+interface ImportSummaryPanelProps {
+  summary: ImportSummary;
+  onDismiss: () => void;
+}
+
+const OUTCOME_STYLES: Record<ImportOutcome, { label: string; className: string }> = {
+  created: { label: 'Created', className: 'bg-green-50 text-green-700' },
+  updated: { label: 'Updated', className: 'bg-blue-50 text-blue-700' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-50 text-gray-700' },
+  rejected: { label: 'Rejected', className: 'bg-red-50 text-red-700' },
+};
+
+const ImportSummaryPanel: React.FC<ImportSummaryPanelProps> = ({ summary, onDismiss }) => {
+  const handleDownload = () => {
+    const blob = new Blob([importSummaryToCSV(summary)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${summary.fileName.replace(/\.[^.]+$/, '')}_import_summary.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const rejected = summary.entries.filter(entry => entry.outcome === 'rejected');
+
+  return (
+    <div className="mt-6 space-y-4 text-left border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-md font-semibold text-gray-800">Import Summary: {summary.fileName}</h4>
+        <div className="flex items-center space-x-3">
+          <button onClick={handleDownload} className="btn-secondary flex items-center space-x-2">
+            <Download size={16} />
+            <span>Download Summary</span>
+          </button>
+          <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {(Object.keys(OUTCOME_STYLES) as ImportOutcome[]).map(outcome => (
+          <div key={outcome} className={`rounded-lg p-3 text-center ${OUTCOME_STYLES[outcome].className}`}>
+            <div className="text-2xl font-bold">{summary.counts[outcome]}</div>
+            <div className="text-sm">{OUTCOME_STYLES[outcome].label}</div>
+          </div>
+        ))}
+      </div>
+
+      {rejected.length > 0 && (
+        <div className="max-h-48 overflow-y-auto text-sm">
+          {rejected.map(entry => (
+            <div key={entry.rowNumber} className="py-1 text-red-700">
+              Row {entry.rowNumber}{entry.barcode && ` (${entry.barcode})`}: {entry.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportSummaryPanel;
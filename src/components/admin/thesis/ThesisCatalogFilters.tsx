@@ -0,0 +1,104 @@
+
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { CatalogQuery, DEFAULT_CATALOG_QUERY, hasCatalogFilters } from '@/lib/thesisCatalogQuery';
+import { STATUS_STYLES, THESIS_STATUSES, type ThesisStatus } from '@/lib/thesisStatus';
+import { MIN_PUBLICATION_YEAR } from '@/lib/thesisValidation';
+
+interface ThesisCatalogFiltersProps {
+  query: CatalogQuery;
+  departments: string[];
+  onChange: (changes: Partial<CatalogQuery>) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ThesisCatalogFilters: React.FC<ThesisCatalogFiltersProps> = ({ query, departments, onChange }) => {
+  const [searchInput, setSearchInput] = useState(query.search);
+
+  // Follow the URL when it changes from outside, e.g. back/forward navigation
+  useEffect(() => {
+    setSearchInput(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    if (searchInput === query.search) return;
+    const timeout = setTimeout(() => onChange({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, query.search, onChange]);
+
+  const parseYearInput = (value: string) => (value ? Number(value) : null);
+
+  return (
+    <div className="flex flex-col lg:flex-row flex-1 gap-3 w-full">
+      <div className="relative flex-1 max-w-md">
+        <Search className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+        <input
+          type="text"
+          placeholder="Search titles, authors, departments or barcodes..."
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          className="input-field pl-10"
+        />
+      </div>
+      <select
+        value={query.status ?? ''}
+        onChange={(e) => onChange({ status: (e.target.value || null) as ThesisStatus | null })}
+        className="select-field w-auto py-2"
+      >
+        <option value="">All Statuses</option>
+        {THESIS_STATUSES.map(status => (
+          <option key={status} value={status}>{STATUS_STYLES[status].label}</option>
+        ))}
+      </select>
+      <select
+        value={query.department ?? ''}
+        onChange={(e) => onChange({ department: e.target.value || null })}
+        className="select-field w-auto py-2"
+      >
+        <option value="">All Departments</option>
+        {departments.map(department => (
+          <option key={department} value={department}>{department}</option>
+        ))}
+      </select>
+      <div className="flex items-center space-x-2">
+        <input
+          type="number"
+          placeholder="From"
+          min={MIN_PUBLICATION_YEAR}
+          value={query.yearFrom ?? ''}
+          onChange={(e) => onChange({ yearFrom: parseYearInput(e.target.value) })}
+          className="input-field w-24 py-2"
+          aria-label="Published from year"
+        />
+        <span className="text-gray-500">-</span>
+        <input
+          type="number"
+          placeholder="To"
+          min={MIN_PUBLICATION_YEAR}
+          value={query.yearTo ?? ''}
+          onChange={(e) => onChange({ yearTo: parseYearInput(e.target.value) })}
+          className="input-field w-24 py-2"
+          aria-label="Published to year"
+        />
+      </div>
+      {hasCatalogFilters(query) && (
+        <button
+          onClick={() => onChange({
+            search: DEFAULT_CATALOG_QUERY.search,
+            status: null,
+            department: null,
+            yearFrom: null,
+            yearTo: null,
+          })}
+          className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <X size={14} />
+          <span>Clear filters</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ThesisCatalogFilters;
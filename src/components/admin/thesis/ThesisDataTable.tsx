@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Edit, Trash2 } from 'lucide-react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Edit, Trash2 } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -9,6 +9,9 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { Checkbox } from '@/components/ui/checkbox';
+import { STATUS_STYLES, type ThesisStatus } from '@/lib/thesisStatus';
+import type { SortColumn, SortDirection } from '@/lib/thesisCatalogQuery';
 
 interface ThesisRecord {
   id: number;
@@ -20,18 +23,33 @@ interface ThesisRecord {
   upload_date: string;
   last_modified: string;
   is_deleted: boolean;
+  status: ThesisStatus;
 }
 
 interface ThesisDataTableProps {
   theses: ThesisRecord[];
   isLoading: boolean;
-  searchTerm: string;
+  isFiltered: boolean;
+  sort: SortColumn | null;
+  direction: SortDirection;
+  onSortChange: (column: SortColumn) => void;
+  selectedIds: number[];
+  onSelectionChange: (ids: number[]) => void;
+  onEdit: (thesis: ThesisRecord) => void;
+  onDelete: (thesis: ThesisRecord) => void;
 }
 
 const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
   theses,
   isLoading,
-  searchTerm
+  isFiltered,
+  sort,
+  direction,
+  onSortChange,
+  selectedIds,
+  onSelectionChange,
+  onEdit,
+  onDelete
 }) => {
   if (isLoading) {
     return (
@@ -42,24 +60,60 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
     );
   }
 
+  const allSelected = theses.length > 0 && theses.every(thesis => selectedIds.includes(thesis.id));
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    onSelectionChange(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const sortableHead = (column: SortColumn, label: string) => {
+    const Icon = sort !== column ? ArrowUpDown : direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead aria-sort={sort === column ? (direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+        <button
+          onClick={() => onSortChange(column)}
+          className={`flex items-center space-x-1 hover:text-gray-900 ${sort === column ? 'text-gray-900' : ''}`}
+        >
+          <span>{label}</span>
+          <Icon size={14} className={sort === column ? '' : 'opacity-40'} />
+        </button>
+      </TableHead>
+    );
+  };
+
   return (
     <div className="card-hover overflow-hidden">
       <div className="overflow-x-auto">
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Barcode</TableHead>
-              <TableHead>Title</TableHead>
-              <TableHead>Author</TableHead>
-              <TableHead>Department</TableHead>
-              <TableHead>Year</TableHead>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => onSelectionChange(checked === true ? theses.map(thesis => thesis.id) : [])}
+                  aria-label="Select all"
+                />
+              </TableHead>
+              {sortableHead('barcode', 'Barcode')}
+              {sortableHead('thesis_title', 'Title')}
+              {sortableHead('authors', 'Author')}
+              {sortableHead('department', 'Department')}
+              {sortableHead('publication_year', 'Year')}
+              {sortableHead('status', 'Status')}
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {theses.length > 0 ? (
               theses.map((thesis) => (
-                <TableRow key={thesis.id}>
+                <TableRow key={thesis.id} data-state={selectedIds.includes(thesis.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(thesis.id)}
+                      onCheckedChange={(checked) => toggleSelected(thesis.id, checked === true)}
+                      aria-label={`Select ${thesis.barcode}`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div className="text-sm font-mono font-medium text-blue-600 bg-blue-50 px-2 py-1 rounded">
                       {thesis.barcode}
@@ -85,12 +139,25 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
                       {thesis.publication_year}
                     </div>
                   </TableCell>
+                  <TableCell>
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[thesis.status].className}`}>
+                      {STATUS_STYLES[thesis.status].label}
+                    </span>
+                  </TableCell>
                   <TableCell>
                     <div className="flex space-x-2">
-                      <button className="text-blue-600 hover:text-blue-900">
+                      <button
+                        onClick={() => onEdit(thesis)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit thesis"
+                      >
                         <Edit size={16} />
                       </button>
-                      <button className="text-red-600 hover:text-red-900">
+                      <button
+                        onClick={() => onDelete(thesis)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete thesis"
+                      >
                         <Trash2 size={16} />
                       </button>
                     </div>
@@ -99,8 +166,8 @@ const ThesisDataTable: React.FC<ThesisDataTableProps> = ({
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={6} className="text-center text-gray-500 py-8">
-                  {searchTerm ? 'No matching thesis records found.' : 'No thesis records available. Upload a CSV file to get started.'}
+                <TableCell colSpan={8} className="text-center text-gray-500 py-8">
+                  {isFiltered ? 'No matching thesis records found.' : 'No thesis records available. Upload a CSV file to get started.'}
                 </TableCell>
               </TableRow>
             )}
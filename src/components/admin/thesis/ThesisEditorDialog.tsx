@@ -0,0 +1,319 @@
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { barcodeError, MIN_PUBLICATION_YEAR, publicationYearError } from '@/lib/thesisValidation';
+import { findReferenceName } from '@/lib/referenceLists';
+import { STATUS_STYLES, THESIS_STATUSES, type ThesisStatus } from '@/lib/thesisStatus';
+
+type ThesisRecord = Tables<'thesis_data'>;
+
+interface ThesisEditorDialogProps {
+  open: boolean;
+  // null creates a new record
+  thesis: ThesisRecord | null;
+  // Active department names; null until the list has loaded
+  departments: string[] | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type FormErrors = Partial<Record<'barcode' | 'thesis_title' | 'authors' | 'department' | 'publication_year', string>>;
+
+const emptyForm = () => ({
+  barcode: '',
+  thesis_title: '',
+  authors: [] as string[],
+  department: '',
+  publication_year: String(new Date().getFullYear()),
+  status: 'draft' as ThesisStatus,
+});
+
+const ThesisEditorDialog: React.FC<ThesisEditorDialogProps> = ({
+  open,
+  thesis,
+  departments,
+  onOpenChange
+}) => {
+  const [formData, setFormData] = useState(emptyForm);
+  const [authorInput, setAuthorInput] = useState('');
+  const [errors, setErrors] = useState<FormErrors>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Load the record being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setFormData(thesis ? {
+      barcode: thesis.barcode,
+      thesis_title: thesis.thesis_title,
+      authors: thesis.authors,
+      department: thesis.department,
+      publication_year: String(thesis.publication_year),
+      status: thesis.status,
+    } : emptyForm());
+    setAuthorInput('');
+    setErrors({});
+  }, [open, thesis]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (record: TablesInsert<'thesis_data'>) => {
+      const { error } = thesis
+        ? await supabase.from('thesis_data').update(record).eq('id', thesis.id)
+        : await supabase.from('thesis_data').insert([record]);
+
+      if (error) {
+        console.error('Error saving thesis:', error);
+        // unique_violation on the barcode column
+        if (error.code === '23505') {
+          throw new Error(`Barcode "${record.barcode}" is already used by another thesis.`);
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+      toast({
+        title: thesis ? "Thesis Updated" : "Thesis Added",
+        description: `"${formData.thesis_title.trim()}" has been saved.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save thesis record.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addAuthors = (value: string) => {
+    // Semicolons separate authors, since names are often written "Surname, Given"
+    const names = value.split(';').map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) return;
+
+    setFormData(prev => ({
+      ...prev,
+      authors: [...prev.authors, ...names.filter(name => !prev.authors.includes(name))],
+    }));
+    setAuthorInput('');
+    setErrors(prev => ({ ...prev, authors: undefined }));
+  };
+
+  const removeAuthor = (author: string) => {
+    setFormData(prev => ({ ...prev, authors: prev.authors.filter(a => a !== author) }));
+  };
+
+  const handleAuthorKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ';') {
+      e.preventDefault();
+      addAuthors(authorInput);
+    } else if (e.key === 'Backspace' && !authorInput && formData.authors.length > 0) {
+      removeAuthor(formData.authors[formData.authors.length - 1]);
+    }
+  };
+
+  const handleInputChange = (field: keyof Omit<typeof formData, 'authors' | 'status'>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  // The list's spelling of a department. A thesis keeps a department that
+  // has since been deactivated or removed from the list, and a list known to
+  // be empty accepts anything.
+  const departmentName = (value: string) => {
+    const trimmed = value.trim();
+    if (departments?.length === 0 || trimmed === thesis?.department) return trimmed;
+    return findReferenceName(departments, trimmed);
+  };
+
+  const validate = (authors: string[]): FormErrors => {
+    const result: FormErrors = {};
+    const barcode = barcodeError(formData.barcode.trim());
+    if (barcode) result.barcode = barcode;
+    if (!formData.thesis_title.trim()) result.thesis_title = 'Title is required';
+    if (authors.length === 0) result.authors = 'Add at least one author';
+    if (!formData.department.trim()) {
+      result.department = 'Department is required';
+    } else if (!departmentName(formData.department)) {
+      result.department = 'Pick a department from the list';
+    }
+    const year = publicationYearError(Number(formData.publication_year));
+    if (year) result.publication_year = year;
+    return result;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!departments) return;
+
+    // Include a name still sitting in the author input
+    const pending = authorInput.split(';').map(name => name.trim()).filter(Boolean);
+    const authors = [...formData.authors, ...pending.filter(name => !formData.authors.includes(name))];
+
+    const validationErrors = validate(authors);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    saveMutation.mutate({
+      barcode: formData.barcode.trim(),
+      thesis_title: formData.thesis_title.trim(),
+      authors,
+      department: departmentName(formData.department),
+      publication_year: Number(formData.publication_year),
+      status: formData.status,
+    });
+  };
+
+  const fieldError = (field: keyof FormErrors) =>
+    errors[field] && <p className="text-xs text-red-600 mt-1">{errors[field]}</p>;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{thesis ? 'Edit Thesis' : 'Add New Thesis'}</DialogTitle>
+          <DialogDescription>
+            {thesis ? 'Update the catalog record for this thesis.' : 'Create a new catalog record.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Barcode *</label>
+            <input
+              type="text"
+              value={formData.barcode}
+              onChange={(e) => handleInputChange('barcode', e.target.value)}
+              className="input-field font-mono"
+              placeholder="e.g. LPU-THS-000123"
+            />
+            {fieldError('barcode')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Thesis Title *</label>
+            <textarea
+              value={formData.thesis_title}
+              onChange={(e) => handleInputChange('thesis_title', e.target.value)}
+              className="input-field"
+              rows={2}
+            />
+            {fieldError('thesis_title')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Authors *</label>
+            <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-red-500 focus-within:border-red-500">
+              {formData.authors.map(author => (
+                <span
+                  key={author}
+                  className="inline-flex items-center space-x-1 px-2 py-1 text-sm bg-red-50 text-red-800 rounded-full"
+                >
+                  <span>{author}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeAuthor(author)}
+                    className="text-red-400 hover:text-red-700"
+                    title={`Remove ${author}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={authorInput}
+                onChange={(e) => setAuthorInput(e.target.value)}
+                onKeyDown={handleAuthorKeyDown}
+                onBlur={() => addAuthors(authorInput)}
+                className="flex-1 min-w-[120px] py-1 outline-none text-sm"
+                placeholder={formData.authors.length === 0 ? 'Surname, Given name' : ''}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Press Enter or ; after each author.</p>
+            {fieldError('authors')}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Department *</label>
+              <input
+                type="text"
+                list="thesis-departments"
+                value={formData.department}
+                onChange={(e) => handleInputChange('department', e.target.value)}
+                className="input-field"
+              />
+              <datalist id="thesis-departments">
+                {(departments ?? []).map(department => (
+                  <option key={department} value={department} />
+                ))}
+              </datalist>
+              {departments === null && (
+                <p className="text-xs text-gray-500 mt-1">Loading the department list...</p>
+              )}
+              {fieldError('department')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Publication Year *</label>
+              <input
+                type="number"
+                min={MIN_PUBLICATION_YEAR}
+                max={new Date().getFullYear()}
+                value={formData.publication_year}
+                onChange={(e) => handleInputChange('publication_year', e.target.value)}
+                className="input-field"
+              />
+              {fieldError('publication_year')}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={formData.status}
+              onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as ThesisStatus }))}
+              className="select-field"
+            >
+              {THESIS_STATUSES.map(status => (
+                <option key={status} value={status}>{STATUS_STYLES[status].label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Only published theses are suggested to visitors.</p>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={saveMutation.isPending || departments === null}
+            >
+              {saveMutation.isPending ? 'Saving...' : thesis ? 'Save Changes' : 'Add Thesis'}
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ThesisEditorDialog;
@@ -0,0 +1,76 @@
+
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { visiblePages } from '@/lib/thesisCatalogQuery';
+
+interface ThesisTablePaginationProps {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+}
+
+const ThesisTablePagination: React.FC<ThesisTablePaginationProps> = ({
+  page,
+  pageSize,
+  totalCount,
+  onPageChange
+}) => {
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= totalPages && target !== page) onPageChange(target);
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+      <p className="text-sm text-gray-600">
+        Showing {firstRow}-{lastRow} of {totalCount} thesis records
+      </p>
+      {totalPages > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={goTo(page - 1)}
+                className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+            {visiblePages(page, totalPages).map((p, i) => (
+              <PaginationItem key={p ?? `gap-${i}`}>
+                {p === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                    {p}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={goTo(page + 1)}
+                className={page === totalPages ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default ThesisTablePagination;
@@ -0,0 +1,282 @@
+
+import React, { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface ThesisTrashProps {
+  canPurge: boolean;
+}
+
+const ThesisTrash: React.FC<ThesisTrashProps> = ({ canPurge }) => {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Shares the ['thesis-data'] prefix so edits and deletes elsewhere refresh it
+  const { data: deletedTheses = [], isLoading } = useQuery({
+    queryKey: ['thesis-data', 'trash'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('thesis_data')
+        .select('*')
+        .eq('is_deleted', true)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching deleted theses:', error);
+        throw error;
+      }
+
+      // deleted_by is an auth user id; show the system user's name instead
+      const userIds = Array.from(new Set(data.map(thesis => thesis.deleted_by).filter(Boolean)));
+      const names = new Map<string, string>();
+      if (userIds.length > 0) {
+        const { data: users, error: usersError } = await supabase
+          .from('system_users')
+          .select('user_id, name')
+          .in('user_id', userIds);
+
+        if (usersError) {
+          console.error('Error fetching deleting users:', usersError);
+        }
+        users?.forEach(user => names.set(user.user_id, user.name));
+      }
+
+      return data.map(thesis => ({
+        ...thesis,
+        deleted_by_name: thesis.deleted_by ? names.get(thesis.deleted_by) ?? 'Unknown user' : 'Unknown user',
+      }));
+    },
+  });
+
+  const finishAction = (ids: number[]) => {
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+    queryClient.invalidateQueries({ queryKey: ['thesis-data'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const { error } = await supabase
+        .from('thesis_data')
+        .update({ is_deleted: false })
+        .in('id', ids);
+
+      if (error) {
+        console.error('Error restoring theses:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, ids) => {
+      finishAction(ids);
+      toast({
+        title: "Theses Restored",
+        description: `${ids.length} thesis record(s) moved back to the catalog.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore thesis records.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      // RLS silently skips rows the user may not delete, so compare what came back
+      const { data, error } = await supabase
+        .from('thesis_data')
+        .delete()
+        .in('id', ids)
+        .select('id');
+
+      if (error) {
+        console.error('Error purging theses:', error);
+        throw error;
+      }
+      if (data.length < ids.length) {
+        throw new Error('Only administrators can permanently delete thesis records.');
+      }
+    },
+    onSuccess: (_, ids) => {
+      finishAction(ids);
+      toast({
+        title: "Theses Deleted",
+        description: `${ids.length} thesis record(s) permanently deleted.`,
+      });
+    },
+    onError: (error, ids) => {
+      finishAction(ids);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete thesis records.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePurge = (ids: number[]) => {
+    if (!confirm(`Permanently delete ${ids.length} thesis record(s)? This cannot be undone.`)) return;
+    purgeMutation.mutate(ids);
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const allSelected = deletedTheses.length > 0 && selectedIds.length === deletedTheses.length;
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending;
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'Unknown';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card-hover p-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading deleted records...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Bulk actions */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-gray-600">
+          {selectedIds.length > 0
+            ? `${selectedIds.length} of ${deletedTheses.length} selected`
+            : `${deletedTheses.length} deleted thesis record(s)`}
+        </p>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => restoreMutation.mutate(selectedIds)}
+            disabled={selectedIds.length === 0 || isBusy}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw size={16} />
+            <span>Restore Selected</span>
+          </button>
+          {canPurge && (
+            <button
+              onClick={() => handlePurge(selectedIds)}
+              disabled={selectedIds.length === 0 || isBusy}
+              className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 size={16} />
+              <span>Delete Permanently</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card-hover overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelectedIds(checked === true ? deletedTheses.map(thesis => thesis.id) : [])}
+                    aria-label="Select all"
+                  />
+                </TableHead>
+                <TableHead>Barcode</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Deleted By</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deletedTheses.length > 0 ? (
+                deletedTheses.map((thesis) => (
+                  <TableRow key={thesis.id} data-state={selectedIds.includes(thesis.id) ? 'selected' : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(thesis.id)}
+                        onCheckedChange={(checked) => toggleSelected(thesis.id, checked === true)}
+                        aria-label={`Select ${thesis.barcode}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm font-mono font-medium text-gray-600 bg-gray-100 px-2 py-1 rounded">
+                        {thesis.barcode}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900 max-w-xs">
+                        {thesis.thesis_title}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-gray-900">
+                        {formatDate(thesis.deleted_at)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-gray-900">
+                        {thesis.deleted_by_name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => restoreMutation.mutate([thesis.id])}
+                          disabled={isBusy}
+                          className="text-blue-600 hover:text-blue-900"
+                          title="Restore thesis"
+                        >
+                          <RotateCcw size={16} />
+                        </button>
+                        {canPurge && (
+                          <button
+                            onClick={() => handlePurge([thesis.id])}
+                            disabled={isBusy}
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete permanently"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                    The trash is empty.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThesisTrash;
@@ -0,0 +1,93 @@
+
+import React, { useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { ACCEPTED_IMPORT_EXTENSIONS } from '@/lib/importFiles';
+
+interface UploadDropZoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+const UploadDropZone: React.FC<UploadDropZoneProps> = ({ onFiles, disabled = false }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave also fire for child elements, so count nesting depth
+  const dragDepth = useRef(0);
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (disabled) return;
+    dragDepth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    // Required for the element to accept a drop
+    e.preventDefault();
+    e.dataTransfer.dropEffect = disabled ? 'none' : 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    if (disabled) return;
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset file input so the same file can be selected again
+    e.target.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`border-2 border-dashed rounded-lg p-8 transition-colors cursor-pointer ${
+        isDragging ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-red-400'
+      }`}
+    >
+      <input
+        type="file"
+        accept={ACCEPTED_IMPORT_EXTENSIONS}
+        multiple
+        className="hidden"
+        id="csv-upload"
+        onChange={handleInputChange}
+        disabled={disabled}
+      />
+      <label htmlFor="csv-upload" className="cursor-pointer block">
+        <div className="space-y-3">
+          <FileText className={`mx-auto h-8 w-8 ${isDragging ? 'text-red-500' : 'text-gray-400'}`} />
+          <div>
+            {isDragging ? (
+              <span className="text-red-600 font-medium">Drop files to add them to the queue</span>
+            ) : (
+              <>
+                <span className="text-red-600 font-medium">Click to upload</span>
+                <span className="text-gray-600"> or drag and drop</span>
+              </>
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            CSV, Excel (.xlsx) or JSON files; several files can be queued at once
+          </p>
+        </div>
+      </label>
+    </div>
+  );
+};
+
+export default UploadDropZone;
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+
+// USB scanners type like a keyboard, but far faster than a person: a whole
+// code arrives a few milliseconds per key and ends with Enter.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+interface Burst {
+  code: string;
+  lastKeyAt: number;
+  // Field the scan was typed into and its value before the first keystroke
+  target: HTMLInputElement | HTMLTextAreaElement | null;
+  valueBefore: string;
+}
+
+// Puts a controlled React input back to its old value; assigning .value
+// directly would be overwritten on the next render
+const restoreValue = (element: HTMLInputElement | HTMLTextAreaElement, value: string) => {
+  const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(element, value);
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const editableTarget = (element: Element | null) =>
+  element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement ? element : null;
+
+// Calls onScan with each scanned code. The Enter that ends a scan is
+// swallowed so it cannot submit a form, and whatever the scan typed into the
+// focused field is undone.
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let burst: Burst | null = null;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const now = performance.now();
+      if (burst && now - burst.lastKeyAt > MAX_KEY_INTERVAL_MS) {
+        burst = null;
+      }
+
+      if (e.key === 'Enter') {
+        if (burst && burst.code.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          e.stopPropagation();
+          if (burst.target) restoreValue(burst.target, burst.valueBefore);
+          // Let React render the restored value before the handler reads state
+          const code = burst.code;
+          setTimeout(() => onScanRef.current(code), 0);
+        }
+        burst = null;
+        return;
+      }
+
+      if (e.key.length !== 1 || e.ctrlKey || e.altKey || e.metaKey) {
+        burst = null;
+        return;
+      }
+
+      if (!burst) {
+        const target = editableTarget(document.activeElement);
+        burst = { code: '', lastKeyAt: now, target, valueBefore: target?.value ?? '' };
+      }
+      burst.code += e.key;
+      burst.lastKeyAt = now;
+    };
+
+    // Capture phase, so the Enter is stopped before the form sees it
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled]);
+};
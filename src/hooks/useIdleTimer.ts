@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+// Calls onIdle once when nobody has touched the page for timeoutMs. The
+// timer only starts again after the next interaction, so an untouched page
+// is not reset over and over.
+export const useIdleTimer = (onIdle: () => void, timeoutMs: number, enabled = true) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, true));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart, true));
+    };
+  }, [timeoutMs, enabled]);
+};
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { countFailedVisits, countQueuedVisits, onQueueChange, syncQueuedVisits } from '@/lib/offlineVisitQueue';
+
+// Keeps sending visits that were saved on this device while offline, and
+// returns how many are still waiting and how many the server rejected.
+// Retries follow the queue's backoff, and everything is retried at once when
+// the browser comes back online.
+export const usePendingVisits = () => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failedCount, setFailedCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const sync = async (force = false) => {
+      try {
+        const nextAttemptAt = await syncQueuedVisits(force);
+        clearTimeout(timer);
+        if (!cancelled && nextAttemptAt !== null) {
+          timer = setTimeout(() => sync(), Math.max(nextAttemptAt - Date.now(), 0));
+        }
+      } catch (error) {
+        console.error('Error syncing queued visits:', error);
+      }
+    };
+
+    const refresh = () => {
+      countQueuedVisits()
+        .then(count => {
+          if (!cancelled) setPendingCount(count);
+        })
+        .catch(error => console.error('Error counting queued visits:', error));
+      countFailedVisits()
+        .then(count => {
+          if (!cancelled) setFailedCount(count);
+        })
+        .catch(error => console.error('Error counting failed visits:', error));
+      sync();
+    };
+
+    const handleOnline = () => sync(true);
+
+    const unsubscribe = onQueueChange(refresh);
+    window.addEventListener('online', handleOnline);
+    refresh();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  return { pendingCount, failedCount };
+};
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { isUnreachable } from '@/lib/offlineStore';
+import { readReferenceListSnapshot, saveReferenceListSnapshot } from '@/lib/referenceListSnapshot';
+import type { ReferenceEntry, ReferenceListName } from '@/lib/referenceLists';
+
+// Every entry of a reference list, active or not, in display order. The last
+// fetched copy is kept on the device and used when Supabase can't be reached,
+// so the visitor form still offers campuses and programs offline.
+export const useReferenceList = (list: ReferenceListName) =>
+  useQuery({
+    queryKey: ['reference-lists', list],
+    queryFn: async (): Promise<ReferenceEntry[]> => {
+      const { data, error, status } = await supabase
+        .from(list)
+        .select('*')
+        .order('sort_order')
+        .order('name');
+
+      if (error) {
+        if (isUnreachable(status)) {
+          const saved = await readReferenceListSnapshot(list).catch(() => null);
+          if (saved) {
+            console.warn(`Using the saved ${list} list; Supabase could not be reached:`, error);
+            return saved;
+          }
+        }
+        console.error(`Error fetching ${list}:`, error);
+        throw error;
+      }
+
+      saveReferenceListSnapshot(list, data || [])
+        .catch(snapshotError => console.error(`Error saving the ${list} list for offline use:`, snapshotError));
+      return data || [];
+    },
+  });
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { refreshTitleSnapshot } from '@/lib/thesisTitleSnapshot';
+
+// How often to check whether the saved titles are due for a refresh
+const CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+// Keeps the offline copy of published thesis titles current while the page
+// is open, so title search still works when the connection drops
+export const useTitleSnapshotRefresh = () => {
+  useEffect(() => {
+    const refresh = () => {
+      if (!navigator.onLine) return;
+      refreshTitleSnapshot().catch(error => console.error('Error refreshing saved thesis titles:', error));
+    };
+
+    refresh();
+    const interval = setInterval(refresh, CHECK_INTERVAL_MS);
+    window.addEventListener('online', refresh);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', refresh);
+    };
+  }, []);
+};
@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from './use-toast';
+
+export type UserRole = 'Admin' | 'Reader';
+
+// Looks the role up in system_users, falling back to the profiles table for
+// accounts that were never added there. Null means no dashboard access.
+const fetchUserRole = async (userId: string): Promise<UserRole | null> => {
+  try {
+    console.log('Fetching user role for user:', userId);
+    const { data, error } = await supabase
+      .from('system_users')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('status', 'Active')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch user permissions",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (data) {
+      console.log('User role found:', data.role);
+      return data.role;
+    }
+
+    // User not found in system_users table - check if they have a profile with reader role
+    console.log('User not found in system_users, checking profiles table...');
+    const { data: profileData, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Error fetching user profile:', profileError);
+    }
+
+    // Default to Reader role if user exists in auth but not in system_users
+    const defaultRole = profileData?.role === 'admin' ? 'Admin' : 'Reader';
+    console.log('Setting default role:', defaultRole);
+    return defaultRole;
+  } catch (error) {
+    console.error('Error fetching user role:', error);
+    // Default to Reader role on any error to allow basic access
+    return 'Reader';
+  }
+};
+
+// The signed-in user's dashboard role, shared by the route guards and the
+// dashboard tabs
+export const useUserRole = () => {
+  const { user } = useAuth();
+
+  const { data: userRole = null, isLoading } = useQuery({
+    queryKey: ['user-role', user?.id],
+    queryFn: () => fetchUserRole(user.id),
+    enabled: Boolean(user),
+  });
+
+  return { userRole, isLoading: Boolean(user) && isLoading };
+};
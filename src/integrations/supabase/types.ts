@@ -9,6 +9,81 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      campuses: {
+        Row: {
+          created_at: string
+          id: number
+          is_active: boolean
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          is_active?: boolean
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      departments: {
+        Row: {
+          created_at: string
+          id: number
+          is_active: boolean
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          is_active?: boolean
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      kiosk_settings: {
+        Row: {
+          failed_attempts: number
+          id: boolean
+          locked_until: string | null
+          pin_hash: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          failed_attempts?: number
+          id?: boolean
+          locked_until?: string | null
+          pin_hash: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          failed_attempts?: number
+          id?: boolean
+          locked_until?: string | null
+          pin_hash?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -36,6 +111,54 @@ export type Database = {
         }
         Relationships: []
       }
+      programs: {
+        Row: {
+          created_at: string
+          id: number
+          is_active: boolean
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          is_active?: boolean
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      returning_visitor_lookups: {
+        Row: {
+          attempted_at: string
+          caller: string
+          id: number
+          student_number: string
+          verified: boolean | null
+        }
+        Insert: {
+          attempted_at?: string
+          caller: string
+          id?: number
+          student_number: string
+          verified?: boolean | null
+        }
+        Update: {
+          attempted_at?: string
+          caller?: string
+          id?: number
+          student_number?: string
+          verified?: boolean | null
+        }
+        Relationships: []
+      }
       system_users: {
         Row: {
           created_at: string
@@ -73,33 +196,42 @@ export type Database = {
         Row: {
           authors: string[]
           barcode: string
+          deleted_at: string | null
+          deleted_by: string | null
           department: string
           id: number
           is_deleted: boolean
           last_modified: string
           publication_year: number
+          status: Database["public"]["Enums"]["thesis_status"]
           thesis_title: string
           upload_date: string
         }
         Insert: {
           authors: string[]
           barcode: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           department: string
           id?: number
           is_deleted?: boolean
           last_modified?: string
           publication_year: number
+          status?: Database["public"]["Enums"]["thesis_status"]
           thesis_title: string
           upload_date?: string
         }
         Update: {
           authors?: string[]
           barcode?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           department?: string
           id?: number
           is_deleted?: boolean
           last_modified?: string
           publication_year?: number
+          status?: Database["public"]["Enums"]["thesis_status"]
           thesis_title?: string
           upload_date?: string
         }
@@ -108,6 +240,7 @@ export type Database = {
       thesis_submissions: {
         Row: {
           campus: string
+          checked_out_at: string | null
           created_at: string
           full_name: string
           id: string
@@ -115,11 +248,11 @@ export type Database = {
           school: string | null
           student_number: string | null
           submission_date: string
-          thesis_title: string
           user_type: string
         }
         Insert: {
           campus: string
+          checked_out_at?: string | null
           created_at?: string
           full_name: string
           id?: string
@@ -127,11 +260,11 @@ export type Database = {
           school?: string | null
           student_number?: string | null
           submission_date?: string
-          thesis_title: string
           user_type: string
         }
         Update: {
           campus?: string
+          checked_out_at?: string | null
           created_at?: string
           full_name?: string
           id?: string
@@ -139,20 +272,144 @@ export type Database = {
           school?: string | null
           student_number?: string | null
           submission_date?: string
-          thesis_title?: string
           user_type?: string
         }
         Relationships: []
       }
+      visit_items: {
+        Row: {
+          created_at: string
+          id: string
+          position: number
+          submission_id: string
+          thesis_id: number | null
+          thesis_title: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          position?: number
+          submission_id: string
+          thesis_id?: number | null
+          thesis_title: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          position?: number
+          submission_id?: string
+          thesis_id?: number | null
+          thesis_title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_items_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "thesis_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_items_thesis_id_fkey"
+            columns: ["thesis_id"]
+            isOneToOne: false
+            referencedRelation: "thesis_data"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      check_out_visit: {
+        Args: { visit_id?: string; visitor_student_number?: string }
+        Returns: {
+          checked_out_at: string
+          full_name: string
+          id: string
+          submission_date: string
+        }[]
+      }
+      current_visitors: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          full_name: string
+          id: string
+          submission_date: string
+          user_type: string
+        }[]
+      }
+      fuzzy_search_theses: {
+        Args: { search_query: string; min_similarity?: number }
+        Returns: {
+          authors: string[]
+          barcode: string
+          department: string
+          id: number
+          publication_year: number
+          similarity: number
+          thesis_title: string
+        }[]
+      }
       is_admin_user: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_returning_visitor: {
+        Args: { visitor_student_number: string }
+        Returns: boolean
+      }
+      log_visit: {
+        Args: { visit: Json; items: Json }
+        Returns: string
+      }
+      record_returning_visitor_lookup: {
+        Args: { visitor_student_number: string; lookup_verified: boolean }
+        Returns: undefined
+      }
+      rename_reference_entry: {
+        Args: { list_name: string; entry_id: number; new_name: string }
+        Returns: undefined
+      }
+      request_caller: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      returning_visitor: {
+        Args: { visitor_student_number: string; visitor_surname_initial: string }
+        Returns: {
+          campus: string
+          full_name: string
+          program: string | null
+        }[]
+      }
+      search_theses: {
+        Args: { search_query: string }
+        Returns: Database["public"]["Tables"]["thesis_data"]["Row"][]
+      }
+      set_kiosk_pin: {
+        Args: { pin: string }
+        Returns: undefined
+      }
+      surname_initial: {
+        Args: { full_name: string }
+        Returns: string
+      }
+      suggest_theses: {
+        Args: {
+          search_query?: string
+          author_query?: string
+          department_query?: string
+          year_query?: number
+        }
+        Returns: Database["public"]["Tables"]["thesis_data"]["Row"][]
+      }
+      verify_kiosk_pin: {
+        Args: { pin: string }
+        Returns: boolean
+      }
     }
     Enums: {
       thesis_status: "draft" | "published" | "archived"
@@ -0,0 +1,87 @@
+// RFC 4180 CSV parsing: quoted fields may contain commas, line breaks and
+// escaped ("") quotes. CRLF, LF and a leading UTF-8 BOM are all accepted.
+export const parseCSV = (text: string): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteStartLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inQuotes = true;
+        quoteStartLine = line;
+        break;
+      case ',':
+        row.push(field);
+        field = '';
+        break;
+      case '\r':
+      case '\n':
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        line++;
+        break;
+      default:
+        field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${quoteStartLine}`);
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, including the trailing newline most exports end with
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Splits a multi-author cell such as "Dela Cruz, Juan; Santos, Maria".
+// Line breaks inside a cell (Alt+Enter in Excel) always separate authors too.
+export const splitAuthors = (cell: string, delimiter: string): string[] =>
+  cell
+    .split(/\r?\n/)
+    .flatMap(line => line.split(delimiter))
+    .map(author => author.trim())
+    .filter(Boolean);
+
+
+// Serializes rows to CSV, quoting only the fields that need it
+export const toCSV = (rows: Array<Array<string | number | null | undefined>>): string =>
+  rows
+    .map(row =>
+      row
+        .map(value => {
+          const text = value === null || value === undefined ? '' : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
@@ -0,0 +1,100 @@
+import type { CellValue } from 'exceljs';
+import { parseCSV } from './csv';
+
+// Every import format is reduced to the same table of strings (header row
+// first) so CSV, Excel and JSON share one mapping and validation pipeline.
+export interface ImportSheet {
+  name: string;
+  table: string[][];
+}
+
+export type ImportFileFormat = 'csv' | 'xlsx' | 'json';
+
+export const ACCEPTED_IMPORT_EXTENSIONS = '.csv,.xlsx,.json';
+
+export const detectImportFormat = (fileName: string): ImportFileFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'xlsx' || extension === 'json' ? extension : null;
+};
+
+const cellToString = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellToString(value.result as CellValue);
+    return '';
+  }
+  return String(value);
+};
+
+const readWorkbook = async (file: File): Promise<ImportSheet[]> => {
+  // Loaded on demand; the Excel library is only needed on this admin screen
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  return workbook.worksheets.map(worksheet => {
+    const table: string[][] = [];
+    worksheet.eachRow(row => {
+      const values: string[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        values.push(cellToString(row.getCell(column).value).trim());
+      }
+      if (values.some(Boolean)) table.push(values);
+    });
+    return { name: worksheet.name, table };
+  });
+};
+
+// Accepts an array of objects (keys become headers) or an array of arrays
+// whose first entry is the header row. Array values, e.g. authors, are kept
+// one per line, which the import always treats as separate authors.
+const readJSON = async (file: File): Promise<ImportSheet[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (error) {
+    throw new Error('The JSON file could not be parsed');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('The JSON file must contain an array of records');
+  }
+
+  const toCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(toCell).join('\n');
+    return String(value).trim();
+  };
+
+  if (data.every(Array.isArray)) {
+    return [{ name: file.name, table: data.map(row => row.map(toCell)) }];
+  }
+
+  if (!data.every(item => item && typeof item === 'object')) {
+    throw new Error('Every JSON record must be an object');
+  }
+
+  const records = data as Array<Record<string, unknown>>;
+  const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  return [{
+    name: file.name,
+    table: [headers, ...records.map(record => headers.map(header => toCell(record[header])))],
+  }];
+};
+
+// Reads an import file into one table per sheet (CSV and JSON have one)
+export const readImportFile = async (file: File): Promise<ImportSheet[]> => {
+  switch (detectImportFormat(file.name)) {
+    case 'csv':
+      return [{ name: file.name, table: parseCSV(await file.text()) }];
+    case 'xlsx':
+      return readWorkbook(file);
+    case 'json':
+      return readJSON(file);
+    default:
+      throw new Error('Please upload a CSV, Excel (.xlsx) or JSON file.');
+  }
+};
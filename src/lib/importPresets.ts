@@ -0,0 +1,48 @@
+import type { ColumnMapping } from './thesisImport';
+
+// Named column layouts, e.g. the registrar's monthly export, kept in
+// localStorage so a recurring import does not need to be re-mapped
+export interface ImportMappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+  authorDelimiter: string;
+}
+
+const STORAGE_KEY = 'thesis-import-mapping-presets';
+
+export const loadMappingPresets = (): ImportMappingPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading mapping presets:', error);
+    return [];
+  }
+};
+
+// Saving under an existing name replaces that preset
+export const saveMappingPreset = (preset: ImportMappingPreset): ImportMappingPreset[] => {
+  const presets = [
+    ...loadMappingPresets().filter(p => p.name !== preset.name),
+    preset,
+  ].sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const deleteMappingPreset = (name: string): ImportMappingPreset[] => {
+  const presets = loadMappingPresets().filter(p => p.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+// Applies a preset to a file, dropping any header the file does not have
+export const applyMappingPreset = (preset: ImportMappingPreset, headers: string[]): ColumnMapping => {
+  const mapping = { ...preset.mapping };
+  (Object.keys(mapping) as Array<keyof ColumnMapping>).forEach(field => {
+    if (mapping[field] && !headers.includes(mapping[field])) {
+      mapping[field] = null;
+    }
+  });
+  return mapping;
+};
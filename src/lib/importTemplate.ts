@@ -0,0 +1,83 @@
+import { THESIS_IMPORT_FIELDS, ThesisInsert } from './thesisImport';
+
+interface TemplateColumn {
+  description: string;
+  examples: [string, string];
+}
+
+// One entry per column of the Insert type, so adding a column to
+// integrations/supabase/types.ts fails the build until the template covers it.
+// Database-managed columns are null.
+const TEMPLATE_COLUMNS: { [K in keyof ThesisInsert]-?: TemplateColumn | null } = {
+  barcode: {
+    description: 'Unique item code from the barcode sticker; letters, numbers and hyphens only. Rows with a known barcode update the existing record. Leave the column out to have barcodes generated.',
+    examples: ['LPU-THS-000123', 'LPU-THS-000124'],
+  },
+  thesis_title: {
+    description: 'Complete title of the thesis.',
+    examples: ['Design of a Solar-Powered Irrigation Controller', 'Customer Loyalty in Batangas Coffee Shops, 2015-2020'],
+  },
+  authors: {
+    description: 'One or more authors. Separate multiple authors with a semicolon (;) or put each on its own line.',
+    examples: ['Dela Cruz, Juan; Santos, Maria', 'Peña, José'],
+  },
+  department: {
+    description: 'Academic department; use a value from the Departments sheet. Blank cells are saved as "Not Specified".',
+    examples: ['Engineering', 'Business Administration'],
+  },
+  publication_year: {
+    description: 'Four-digit year the thesis was published, from 1900 to the current year. Blank cells use the current year.',
+    examples: ['2021', '2019'],
+  },
+  deleted_at: null,
+  deleted_by: null,
+  id: null,
+  is_deleted: null,
+  last_modified: null,
+  status: null,
+  upload_date: null,
+};
+
+// Required flags come from the importer, so the template asks for exactly
+// what an import enforces
+const isRequired = (name: keyof ThesisInsert) =>
+  THESIS_IMPORT_FIELDS.some(({ field, required }) => field === name && required);
+
+export const templateColumns = () =>
+  (Object.entries(TEMPLATE_COLUMNS) as Array<[keyof ThesisInsert, TemplateColumn | null]>)
+    .filter((entry): entry is [keyof ThesisInsert, TemplateColumn] => entry[1] !== null)
+    .map(([name, column]) => ({ name, required: isRequired(name), ...column }));
+
+// Builds the downloadable .xlsx template: example rows, a column reference
+// and the list of allowed department values
+export const buildImportTemplate = async (departments: string[]): Promise<Blob> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const columns = templateColumns();
+
+  const theses = workbook.addWorksheet('Theses');
+  theses.columns = columns.map(column => ({ header: column.name, key: column.name, width: 40 }));
+  theses.getRow(1).font = { bold: true };
+  [0, 1].forEach(index => {
+    theses.addRow(Object.fromEntries(columns.map(column => [column.name, column.examples[index]])));
+  });
+
+  const reference = workbook.addWorksheet('Columns');
+  reference.columns = [
+    { header: 'Column', key: 'name', width: 20 },
+    { header: 'Required', key: 'required', width: 10 },
+    { header: 'Description', key: 'description', width: 90 },
+  ];
+  reference.getRow(1).font = { bold: true };
+  columns.forEach(column => {
+    reference.addRow({ name: column.name, required: column.required ? 'Yes' : 'No', description: column.description });
+  });
+
+  const departmentSheet = workbook.addWorksheet('Departments');
+  departmentSheet.columns = [{ header: 'department', key: 'department', width: 40 }];
+  departmentSheet.getRow(1).font = { bold: true };
+  departments.forEach(department => departmentSheet.addRow({ department }));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
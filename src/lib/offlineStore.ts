@@ -0,0 +1,46 @@
+// IndexedDB storage for what the visitor form needs while offline: visits
+// waiting to be sent, visits the server turned down, and snapshots of thesis
+// titles to search and of the campus, program and department lists
+
+const DB_NAME = 'undergradfile-offline';
+const DB_VERSION = 4;
+
+export type OfflineStoreName = 'visits' | 'failed-visits' | 'thesis-titles' | 'reference-lists';
+const STORE_NAMES: OfflineStoreName[] = ['visits', 'failed-visits', 'thesis-titles', 'reference-lists'];
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORE_NAMES
+        .filter(name => !request.result.objectStoreNames.contains(name))
+        .forEach(name => request.result.createObjectStore(name, { keyPath: 'id' }));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request in its own transaction and resolves once it has committed
+export const withStore = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+// Whether a failed Supabase request never reached it: no response at all
+// (offline, DNS, dropped connection) or the server being temporarily down
+export const isUnreachable = (status: number) => status === 0 || status >= 500 || !navigator.onLine;
@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { isUnreachable, withStore } from './offlineStore';
+
+// A visit as sent to log_visit. The id is generated on the device before the
+// first attempt, and log_visit ignores ids it has already logged, so sending
+// the same entry twice never creates a second row.
+export interface VisitPayload {
+  visit: { id: string; submission_date: string } & Record<string, Json>;
+  items: Array<{ thesis_title: string; thesis_id: number | null }>;
+}
+
+interface QueuedVisit extends VisitPayload {
+  id: string;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+// A queued visit the server rejected. It is kept on the device, out of the
+// queue, so it no longer holds up the visits behind it.
+interface FailedVisit extends QueuedVisit {
+  failedAt: number;
+  error: string;
+}
+
+// Retry after 15s, 30s, 1m, ... up to 10 minutes between attempts
+const BASE_RETRY_MS = 15 * 1000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+
+const retryDelay = (attempts: number) => Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+
+const listeners = new Set<() => void>();
+
+// Called whenever entries are queued, sent or set aside as failed
+export const onQueueChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const countQueuedVisits = () => withStore('visits', 'readonly', store => store.count());
+
+const listQueuedVisits = () => withStore<QueuedVisit[]>('visits', 'readonly', store => store.getAll());
+
+const putQueuedVisit = (entry: QueuedVisit) => withStore('visits', 'readwrite', store => store.put(entry));
+
+const deleteQueuedVisit = (id: string) => withStore('visits', 'readwrite', store => store.delete(id));
+
+export const countFailedVisits = () => withStore('failed-visits', 'readonly', store => store.count());
+
+// Stored before the queue entry is removed, so a visit is never lost between
+// the two; the shared id keeps a retried move from duplicating it
+const setAsideFailedVisit = async (entry: QueuedVisit, error: { message: string }) => {
+  const failed: FailedVisit = { ...entry, failedAt: Date.now(), error: error.message };
+  await withStore('failed-visits', 'readwrite', store => store.put(failed));
+  await deleteQueuedVisit(entry.id);
+};
+
+const sendVisit = async ({ visit, items }: VisitPayload) => {
+  const { error, status } = await supabase.rpc('log_visit', { visit, items });
+  return { error, transient: Boolean(error) && isUnreachable(status) };
+};
+
+// Sends a visit, keeping it on this device when the connection is down.
+// Errors the server returns for the visit itself are thrown as before.
+export const submitVisit = async (payload: VisitPayload): Promise<'sent' | 'queued'> => {
+  const { error, transient } = await sendVisit(payload);
+  if (!error) return 'sent';
+  if (!transient) throw error;
+
+  console.warn('Visit could not be sent; queued for retry:', error);
+  const now = Date.now();
+  await putQueuedVisit({ ...payload, id: payload.visit.id, queuedAt: now, attempts: 0, nextAttemptAt: now + BASE_RETRY_MS });
+  notify();
+  return 'queued';
+};
+
+let running: Promise<number | null> | null = null;
+
+// Sends queued visits that are due, oldest first. A connection failure stops
+// the run since the rest would fail the same way; a visit the server rejects
+// is set aside as failed and the run moves on. `force` ignores the backoff,
+// for when the browser reports the connection is back. Resolves to when the
+// next retry is due, or null when the queue is empty.
+export const syncQueuedVisits = (force = false): Promise<number | null> => {
+  running ??= (async () => {
+    try {
+      const entries = (await listQueuedVisits()).sort((a, b) => a.queuedAt - b.queuedAt);
+
+      for (const entry of entries) {
+        if (!force && entry.nextAttemptAt > Date.now()) continue;
+
+        const { error, transient } = await sendVisit(entry);
+        if (!error) {
+          await deleteQueuedVisit(entry.id);
+          notify();
+          continue;
+        }
+
+        if (!transient) {
+          console.error('Queued visit was rejected; set aside as failed:', error);
+          await setAsideFailedVisit(entry, error);
+          notify();
+          continue;
+        }
+
+        console.warn('Queued visit could not be sent:', error);
+        const attempts = entry.attempts + 1;
+        await putQueuedVisit({ ...entry, attempts, nextAttemptAt: Date.now() + retryDelay(attempts) });
+        break;
+      }
+
+      const remaining = await listQueuedVisits();
+      return remaining.length ? Math.min(...remaining.map(entry => entry.nextAttemptAt)) : null;
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+};
@@ -0,0 +1,23 @@
+import { withStore } from './offlineStore';
+import type { ReferenceEntry, ReferenceListName } from './referenceLists';
+
+interface ReferenceListSnapshot {
+  id: ReferenceListName;
+  fetchedAt: number;
+  entries: ReferenceEntry[];
+}
+
+// Replaced after every successful fetch, so the copy is as fresh as the last
+// time the device was online
+export const saveReferenceListSnapshot = (list: ReferenceListName, entries: ReferenceEntry[]) =>
+  withStore('reference-lists', 'readwrite', store =>
+    store.put({ id: list, fetchedAt: Date.now(), entries } satisfies ReferenceListSnapshot)
+  );
+
+// The saved entries, or null when the list was never fetched on this device
+export const readReferenceListSnapshot = async (list: ReferenceListName) => {
+  const snapshot = await withStore<ReferenceListSnapshot | undefined>('reference-lists', 'readonly', store =>
+    store.get(list)
+  );
+  return snapshot?.entries ?? null;
+};
@@ -0,0 +1,21 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// Admin-managed lists; all three tables share the same columns
+export type ReferenceListName = 'campuses' | 'programs' | 'departments';
+export type ReferenceEntry = Tables<'campuses'>;
+
+export const REFERENCE_LISTS: Array<{ list: ReferenceListName; label: string; singular: string; description: string }> = [
+  { list: 'campuses', label: 'Campuses', singular: 'campus', description: 'Offered in the visitor form and the user records filters.' },
+  { list: 'programs', label: 'Programs', singular: 'program', description: 'Offered to LPU students in the visitor form.' },
+  { list: 'departments', label: 'Departments', singular: 'department', description: 'Allowed for catalog theses and checked on import.' },
+];
+
+// Names to offer for new records, in the admin's order
+export const activeNames = (entries: ReferenceEntry[]) =>
+  entries.filter(entry => entry.is_active).map(entry => entry.name);
+
+// Case-insensitive lookup that returns the list's own spelling
+export const findReferenceName = (names: string[], value: string) => {
+  const lower = value.trim().toLowerCase();
+  return names.find(name => name.toLowerCase() === lower) ?? null;
+};
@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type ReturningVisitor = Database['public']['Functions']['returning_visitor']['Returns'][number];
+
+// Whether the student number has visited before. Says nothing else about
+// the student, so it is safe to ask before the visitor confirms.
+export const isReturningVisitor = async (studentNumber: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_returning_visitor', {
+    visitor_student_number: studentNumber,
+  });
+
+  if (error) {
+    console.error('Error looking up returning visitor:', error);
+    throw error;
+  }
+
+  return Boolean(data);
+};
+
+// Details from the student's latest visit. The surname initial proves the
+// visitor is that student; null when it does not match.
+export const findReturningVisitor = async (
+  studentNumber: string,
+  surnameInitial: string
+): Promise<ReturningVisitor | null> => {
+  const { data, error } = await supabase.rpc('returning_visitor', {
+    visitor_student_number: studentNumber,
+    visitor_surname_initial: surnameInitial,
+  });
+
+  if (error) {
+    console.error('Error looking up returning visitor:', error);
+    throw error;
+  }
+
+  return data?.[0] ?? null;
+};
@@ -0,0 +1,29 @@
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const searchWords = (query: string) =>
+  query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Full-text search matches on word stems, so a word counts as matched when it
+// starts with a search term ("networks" for "network") or the term starts with
+// a long enough word ("network" for "networks").
+const isMatch = (word: string, terms: string[]) => {
+  const lower = word.toLowerCase();
+  return terms.some(term => lower.startsWith(term) || (lower.length >= 4 && term.startsWith(lower)));
+};
+
+// Splits text into plain and matched runs for rendering search results
+export const highlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const terms = searchWords(query);
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  return text
+    .split(/([\p{L}\p{N}]+)/u)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: /[\p{L}\p{N}]/u.test(part) && isMatch(part, terms) }));
+};
+
+export const matchesSearch = (text: string, query: string) =>
+  highlightSegments(text, query).some(segment => segment.match);
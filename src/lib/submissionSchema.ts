@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+// Shared by the visitor form and the admin record editor, so a visit is
+// validated the same way wherever it is written
+
+export const USER_TYPES = ['LPU Student', 'Non-LPU Student'] as const;
+export type UserType = typeof USER_TYPES[number];
+
+// Digits, optionally grouped with hyphens, e.g. 2021-00123
+export const STUDENT_NUMBER_PATTERN = /^\d+(-\d+)*$/;
+export const MIN_STUDENT_NUMBER_LENGTH = 5;
+const MAX_STUDENT_NUMBER_LENGTH = 20;
+
+const MAX_TEXT_LENGTH = 200;
+
+// Trims and collapses runs of spaces, so whitespace-only input is empty
+const text = () => z.string().transform(value => value.replace(/\s+/g, ' ').trim());
+
+const requiredText = (label: string) =>
+  text().pipe(
+    z.string()
+      .min(1, `${label} is required`)
+      .max(MAX_TEXT_LENGTH, `${label} must be at most ${MAX_TEXT_LENGTH} characters`)
+  );
+
+const studentNumberError = (studentNumber: string) => {
+  if (!studentNumber) return 'Student number is required';
+  if (!STUDENT_NUMBER_PATTERN.test(studentNumber)) {
+    return 'Student number may only contain digits and hyphens, e.g. 2021-00123';
+  }
+  if (studentNumber.length < MIN_STUDENT_NUMBER_LENGTH || studentNumber.length > MAX_STUDENT_NUMBER_LENGTH) {
+    return `Student number must be ${MIN_STUDENT_NUMBER_LENGTH} to ${MAX_STUDENT_NUMBER_LENGTH} characters`;
+  }
+  return null;
+};
+
+// LPU students give their student number and program; other visitors give
+// their school. The fields that do not apply are stored as null.
+export const submissionSchema = z
+  .object({
+    user_type: z.enum(USER_TYPES),
+    full_name: requiredText('Full name'),
+    student_number: text(),
+    school: text(),
+    campus: requiredText('Campus'),
+    program: text(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.user_type === 'LPU Student') {
+      const error = studentNumberError(value.student_number);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['student_number'], message: error });
+      if (!value.program) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['program'], message: 'Program is required' });
+      }
+    } else if (!value.school) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['school'], message: 'School is required' });
+    } else if (value.school.length > MAX_TEXT_LENGTH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['school'],
+        message: `School must be at most ${MAX_TEXT_LENGTH} characters`,
+      });
+    }
+  })
+  .transform(value => {
+    const isLpu = value.user_type === 'LPU Student';
+    return {
+      ...value,
+      student_number: isLpu ? value.student_number : null,
+      program: isLpu ? value.program : null,
+      school: isLpu ? null : value.school,
+    };
+  });
+
+// What the form fields hold, and the thesis_submissions columns they become
+export type SubmissionFormValues = z.input<typeof submissionSchema>;
+export type SubmissionValues = z.output<typeof submissionSchema>;
+
+export const emptySubmission = (): SubmissionFormValues => ({
+  user_type: 'LPU Student',
+  full_name: '',
+  student_number: '',
+  school: '',
+  campus: '',
+  program: '',
+});
+
+// Title typed or picked for one consulted thesis
+export const thesisTitleSchema = requiredText('Thesis title');
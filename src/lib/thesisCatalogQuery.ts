@@ -0,0 +1,94 @@
+import { THESIS_STATUSES, type ThesisStatus } from './thesisStatus';
+
+export const CATALOG_PAGE_SIZE = 25;
+
+export const SORTABLE_COLUMNS = [
+  'barcode',
+  'thesis_title',
+  'authors',
+  'department',
+  'publication_year',
+  'status',
+] as const;
+
+export type SortColumn = typeof SORTABLE_COLUMNS[number];
+export type SortDirection = 'asc' | 'desc';
+
+// Everything that selects a page of the Manage Data view. It round-trips
+// through the URL query string so a filtered view can be bookmarked.
+export interface CatalogQuery {
+  search: string;
+  status: ThesisStatus | null;
+  department: string | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+  // null orders by relevance while searching, newest first otherwise
+  sort: SortColumn | null;
+  direction: SortDirection;
+  page: number;
+}
+
+export const DEFAULT_CATALOG_QUERY: CatalogQuery = {
+  search: '',
+  status: null,
+  department: null,
+  yearFrom: null,
+  yearTo: null,
+  sort: null,
+  direction: 'asc',
+  page: 1,
+};
+
+export const hasCatalogFilters = (query: CatalogQuery) =>
+  Boolean(query.search || query.status || query.department || query.yearFrom !== null || query.yearTo !== null);
+
+const parseYear = (value: string | null) => {
+  const year = Number(value);
+  return value && Number.isInteger(year) ? year : null;
+};
+
+export const parseCatalogQuery = (params: URLSearchParams): CatalogQuery => {
+  const status = params.get('status') as ThesisStatus;
+  const sort = params.get('sort') as SortColumn;
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') ?? '',
+    status: THESIS_STATUSES.includes(status) ? status : null,
+    department: params.get('dept') || null,
+    yearFrom: parseYear(params.get('from')),
+    yearTo: parseYear(params.get('to')),
+    sort: SORTABLE_COLUMNS.includes(sort) ? sort : DEFAULT_CATALOG_QUERY.sort,
+    direction: params.get('dir') === 'desc' ? 'desc' : 'asc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+// Writes the query onto existing params, leaving defaults out of the URL
+export const writeCatalogQuery = (params: URLSearchParams, query: CatalogQuery) => {
+  const next = new URLSearchParams(params);
+  const values: Record<string, string | null> = {
+    q: query.search || null,
+    status: query.status,
+    dept: query.department,
+    from: query.yearFrom === null ? null : String(query.yearFrom),
+    to: query.yearTo === null ? null : String(query.yearTo),
+    sort: query.sort,
+    dir: query.sort && query.direction === 'desc' ? 'desc' : null,
+    page: query.page > 1 ? String(query.page) : null,
+  };
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === null) next.delete(key);
+    else next.set(key, value);
+  });
+  return next;
+};
+
+// Page numbers to show around the current page; null marks a gap
+export const visiblePages = (page: number, totalPages: number): Array<number | null> => {
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const sorted = Array.from(pages).filter(p => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+};
@@ -0,0 +1,272 @@
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { splitAuthors, toCSV } from './csv';
+import { findReferenceName } from './referenceLists';
+import { barcodeError, publicationYearError } from './thesisValidation';
+
+export type ThesisInsert = TablesInsert<'thesis_data'>;
+export type ThesisRow = Tables<'thesis_data'>;
+
+export interface ThesisImportRow {
+  // 1-based row among the file's non-blank rows, counting the header as row 1.
+  // Not a line number: blank lines are skipped and quoted fields may span lines.
+  rowNumber: number;
+  record: ThesisInsert;
+  errors: string[];
+}
+
+// thesis_data columns an import file can supply
+export type ThesisImportField = 'barcode' | 'thesis_title' | 'authors' | 'department' | 'publication_year';
+
+// Maps each field to the file header it is read from (null = not imported)
+export type ColumnMapping = Record<ThesisImportField, string | null>;
+
+export interface ThesisImportOptions {
+  authorDelimiter: string;
+  mapping: ColumnMapping;
+  // Active names from the loaded department list. Empty accepts any
+  // department, so only pass it once the list is known to be empty.
+  departments: string[];
+}
+
+export const THESIS_IMPORT_FIELDS: Array<{
+  field: ThesisImportField;
+  label: string;
+  required: boolean;
+  // Header keywords, strongest first
+  keywords: string[];
+}> = [
+  { field: 'barcode', label: 'Barcode', required: false, keywords: ['barcode', 'accession number', 'accession'] },
+  { field: 'thesis_title', label: 'Thesis Title', required: true, keywords: ['thesis title', 'title'] },
+  { field: 'authors', label: 'Authors', required: true, keywords: ['authors', 'author', 'researchers', 'researcher', 'proponents', 'proponent'] },
+  { field: 'department', label: 'Department', required: false, keywords: ['department', 'program', 'college', 'course'] },
+  { field: 'publication_year', label: 'Publication Year', required: false, keywords: ['publication year', 'year published', 'year'] },
+];
+
+// Headers describing other people on the thesis must never be read as authors
+const EXCLUDED_HEADER_WORDS = ['adviser', 'advisor', 'panel', 'editor', 'encoder'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+// Suggests a header for every field: an exact keyword match wins over a
+// partial one, and each header is used at most once
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const { field, keywords } of THESIS_IMPORT_FIELDS) {
+    let bestIndex = -1;
+    let bestScore = 0;
+
+    normalized.forEach((header, index) => {
+      if (used.has(index)) return;
+      if (EXCLUDED_HEADER_WORDS.some(word => header.includes(word))) return;
+
+      keywords.forEach((keyword, rank) => {
+        const base = header === keyword ? 100 : header.includes(keyword) ? 50 : 0;
+        const score = base > 0 ? base - rank : 0;
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+    });
+
+    if (bestIndex !== -1) used.add(bestIndex);
+    mapping[field] = bestIndex === -1 ? null : headers[bestIndex];
+  }
+
+  return mapping;
+};
+
+// Fields that must be mapped before rows can be built
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  THESIS_IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]);
+
+export const AUTHOR_DELIMITERS = [
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+  { value: '/', label: 'Slash (/)' },
+];
+
+// Generate unique barcode
+export const generateBarcode = () => {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substr(2, 5);
+  return `THS-${timestamp}-${random}`.toUpperCase();
+};
+
+// A missing year defaults to the current one
+const validateYear = (raw: string, errors: string[]) => {
+  if (!raw) return new Date().getFullYear();
+
+  const year = Number(raw);
+  if (Number.isNaN(year)) {
+    errors.push(`Publication year "${raw}" is not a number`);
+  } else {
+    const error = publicationYearError(year);
+    if (error) errors.push(error);
+  }
+  return year;
+};
+
+// Blank departments import as "Not Specified"; others must be on the list,
+// and are stored with the list's spelling
+const validateDepartment = (raw: string, departments: string[], errors: string[]) => {
+  if (!raw) return 'Not Specified';
+  if (departments.length === 0) return raw;
+
+  const department = findReferenceName(departments, raw);
+  if (!department) errors.push(`Department "${raw}" is not in the department list`);
+  return department ?? raw;
+};
+
+// Turns a parsed table (header row first) into thesis_data records,
+// collecting validation errors per row instead of failing the whole file
+export const buildImportRows = (table: string[][], options: ThesisImportOptions): ThesisImportRow[] => {
+  if (table.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const missing = missingRequiredFields(options.mapping);
+  if (missing.length > 0) {
+    throw new Error(`Map a column to ${missing.map(({ label }) => label).join(' and ')} before importing`);
+  }
+
+  const headers = table[0];
+  const columnIndex = (field: ThesisImportField) => {
+    const header = options.mapping[field];
+    return header ? headers.indexOf(header) : -1;
+  };
+
+  const barcodeMapped = Boolean(options.mapping.barcode);
+  const seenBarcodes = new Map<string, number>();
+
+  return table.slice(1).map((values, index) => {
+    const cell = (field: ThesisImportField) => {
+      const position = columnIndex(field);
+      return position === -1 ? '' : (values[position] || '').trim();
+    };
+    const errors: string[] = [];
+
+    const thesisTitle = cell('thesis_title');
+    if (!thesisTitle) errors.push('Title is required');
+
+    const authors = splitAuthors(cell('authors'), options.authorDelimiter);
+    if (authors.length === 0) errors.push('At least one author is required');
+
+    const rowNumber = index + 2;
+
+    // A mapped barcode column identifies the item, so re-imports update it
+    // instead of creating a duplicate; only unmapped files get generated codes
+    let barcode = cell('barcode');
+    const invalidBarcode = barcodeMapped ? barcodeError(barcode) : null;
+    if (!barcodeMapped) {
+      barcode = generateBarcode();
+    } else if (invalidBarcode) {
+      errors.push(invalidBarcode);
+    } else if (seenBarcodes.has(barcode)) {
+      errors.push(`Barcode "${barcode}" already appears on row ${seenBarcodes.get(barcode)}`);
+    } else {
+      seenBarcodes.set(barcode, rowNumber);
+    }
+
+    return {
+      rowNumber,
+      record: {
+        barcode,
+        thesis_title: thesisTitle,
+        authors,
+        department: validateDepartment(cell('department'), options.departments, errors),
+        publication_year: validateYear(cell('publication_year'), errors),
+      },
+      errors,
+    };
+  });
+};
+
+export type ImportOutcome = 'created' | 'updated' | 'unchanged' | 'rejected';
+
+export interface ImportSummaryEntry {
+  rowNumber: number;
+  barcode: string;
+  thesis_title: string;
+  outcome: ImportOutcome;
+  message: string;
+}
+
+export interface ImportSummary {
+  fileName: string;
+  entries: ImportSummaryEntry[];
+  counts: Record<ImportOutcome, number>;
+}
+
+// A record to write, with the file row it came from so failures are
+// reported against the right row
+export interface ImportWrite {
+  rowNumber: number;
+  record: ThesisInsert;
+}
+
+const isSameRecord = (record: ThesisInsert, existing: ThesisRow) =>
+  record.thesis_title === existing.thesis_title &&
+  record.department === existing.department &&
+  record.publication_year === existing.publication_year &&
+  record.authors.length === existing.authors.length &&
+  record.authors.every((author, i) => author === existing.authors[i]);
+
+// Compares import rows against the catalog rows that share their barcode.
+// Only created and updated records need to be written. Records carry no
+// status, so new theses land as drafts and updates keep their current status.
+export const classifyImportRows = (rows: ThesisImportRow[], existingByBarcode: Map<string, ThesisRow>) => {
+  const toWrite: ImportWrite[] = [];
+
+  const entries = rows.map<ImportSummaryEntry>(row => {
+    const base = {
+      rowNumber: row.rowNumber,
+      barcode: row.record.barcode,
+      thesis_title: row.record.thesis_title,
+    };
+
+    if (row.errors.length > 0) {
+      return { ...base, outcome: 'rejected', message: row.errors.join('; ') };
+    }
+
+    const existing = existingByBarcode.get(row.record.barcode);
+    if (!existing) {
+      toWrite.push({ rowNumber: row.rowNumber, record: row.record });
+      return { ...base, outcome: 'created', message: '' };
+    }
+    if (existing.is_deleted) {
+      return { ...base, outcome: 'rejected', message: 'Barcode belongs to a thesis in the trash; restore it before importing' };
+    }
+    if (isSameRecord(row.record, existing)) {
+      return { ...base, outcome: 'unchanged', message: '' };
+    }
+
+    toWrite.push({ rowNumber: row.rowNumber, record: row.record });
+    return { ...base, outcome: 'updated', message: '' };
+  });
+
+  return { entries, toWrite };
+};
+
+export const summarizeImport = (fileName: string, entries: ImportSummaryEntry[]): ImportSummary => {
+  const counts: Record<ImportOutcome, number> = { created: 0, updated: 0, unchanged: 0, rejected: 0 };
+  entries.forEach(entry => {
+    counts[entry.outcome] += 1;
+  });
+  return { fileName, entries, counts };
+};
+
+export const importSummaryToCSV = (summary: ImportSummary) =>
+  toCSV([
+    ['Row', 'Barcode', 'Thesis Title', 'Outcome', 'Message'],
+    ...summary.entries.map(entry => [
+      entry.rowNumber,
+      entry.barcode,
+      entry.thesis_title,
+      entry.outcome,
+      entry.message,
+    ]),
+  ]);
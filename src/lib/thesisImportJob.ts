@@ -0,0 +1,119 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { ImportSummaryEntry, ImportWrite, ThesisInsert } from './thesisImport';
+
+export const IMPORT_BATCH_SIZE = 100;
+
+interface ImportBatch {
+  rowNumbers: number[];
+  records: ThesisInsert[];
+}
+
+// A commit in progress. It is saved to localStorage after every batch so an
+// import cut off by a network drop can resume from the last committed batch.
+export interface ThesisImportJob {
+  fileName: string;
+  entries: ImportSummaryEntry[];
+  batches: ImportBatch[];
+  nextBatch: number;
+  startedAt: string;
+}
+
+export interface ImportProgress {
+  completedBatches: number;
+  totalBatches: number;
+}
+
+const STORAGE_KEY = 'thesis-import-job';
+
+export const createImportJob = (
+  fileName: string,
+  entries: ImportSummaryEntry[],
+  toWrite: ImportWrite[]
+): ThesisImportJob => {
+  const batches: ImportBatch[] = [];
+
+  for (let i = 0; i < toWrite.length; i += IMPORT_BATCH_SIZE) {
+    const writes = toWrite.slice(i, i + IMPORT_BATCH_SIZE);
+    batches.push({
+      records: writes.map(write => write.record),
+      rowNumbers: writes.map(write => write.rowNumber),
+    });
+  }
+
+  return { fileName, entries, batches, nextBatch: 0, startedAt: new Date().toISOString() };
+};
+
+export const loadImportJob = (): ThesisImportJob | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading saved import job:', error);
+    return null;
+  }
+};
+
+const saveImportJob = (job: ThesisImportJob) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(job));
+};
+
+export const clearImportJob = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// PostgREST rejections carry a SQLSTATE or PGRST code; a failed fetch does not
+const isNetworkError = (error: PostgrestError) => !navigator.onLine || !error.code;
+
+const upsertRecords = (records: ThesisInsert[]) =>
+  supabase.from('thesis_data').upsert(records, { onConflict: 'barcode' });
+
+const markRejected = (job: ThesisImportJob, rowNumber: number, message: string) => {
+  const entry = job.entries.find(e => e.rowNumber === rowNumber);
+  if (entry) {
+    entry.outcome = 'rejected';
+    entry.message = message;
+  }
+};
+
+const interrupted = (job: ThesisImportJob, error: PostgrestError) => {
+  saveImportJob(job);
+  console.error('Import interrupted:', error);
+  return new Error(
+    `Connection lost after ${job.nextBatch} of ${job.batches.length} batches. Resume the import once you are back online.`
+  );
+};
+
+// Writes the remaining batches. A batch the database rejects is retried one
+// row at a time so only the offending rows are marked as rejected; a network
+// failure stops the run and leaves the job saved for resuming.
+export const runImportJob = async (
+  job: ThesisImportJob,
+  onProgress: (progress: ImportProgress) => void
+): Promise<ThesisImportJob> => {
+  saveImportJob(job);
+
+  for (let i = job.nextBatch; i < job.batches.length; i++) {
+    const batch = job.batches[i];
+    const { error } = await upsertRecords(batch.records);
+
+    if (error) {
+      if (isNetworkError(error)) throw interrupted(job, error);
+
+      console.error(`Batch ${i + 1} rejected, retrying row by row:`, error);
+      for (let j = 0; j < batch.records.length; j++) {
+        const { error: rowError } = await upsertRecords([batch.records[j]]);
+        if (!rowError) continue;
+        if (isNetworkError(rowError)) throw interrupted(job, rowError);
+        markRejected(job, batch.rowNumbers[j], rowError.message);
+      }
+    }
+
+    job.nextBatch = i + 1;
+    saveImportJob(job);
+    onProgress({ completedBatches: job.nextBatch, totalBatches: job.batches.length });
+  }
+
+  clearImportJob();
+  return job;
+};
@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type ThesisMatch = Database['public']['Functions']['fuzzy_search_theses']['Returns'][number];
+
+// Near misses worth listing while the visitor types
+export const SUGGESTION_SIMILARITY = 0.3;
+
+// Close enough that a typed title most likely means this catalog item
+export const DID_YOU_MEAN_SIMILARITY = 0.6;
+
+// Published theses with titles similar to the text, closest first
+export const findSimilarTheses = async (text: string, minSimilarity = SUGGESTION_SIMILARITY): Promise<ThesisMatch[]> => {
+  const { data, error } = await supabase.rpc('fuzzy_search_theses', {
+    search_query: text,
+    min_similarity: minSimilarity,
+  });
+
+  if (error) {
+    console.error('Error matching thesis titles:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const formatSimilarity = (similarity: number) => `${Math.round(similarity * 100)}% match`;
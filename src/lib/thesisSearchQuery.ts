@@ -0,0 +1,72 @@
+import { matchesSearch } from './searchHighlight';
+
+// A visitor's search box text split into free text and field prefixes, e.g.
+// `author:santos year:2021 dept:"computer science" solar`
+export interface ThesisSearchQuery {
+  text: string;
+  author: string | null;
+  department: string | null;
+  year: number | null;
+}
+
+export type MatchedField = 'barcode' | 'title' | 'author' | 'department' | 'year';
+
+export const MATCHED_FIELD_LABELS: Record<MatchedField, string> = {
+  barcode: 'Barcode',
+  title: 'Title',
+  author: 'Author',
+  department: 'Department',
+  year: 'Year',
+};
+
+const PREFIX_PATTERN = /\b(author|year|dept):(?:"([^"]*)"?|(\S*))/gi;
+
+export const parseSearchQuery = (input: string): ThesisSearchQuery => {
+  const query: ThesisSearchQuery = { text: '', author: null, department: null, year: null };
+
+  const text = input.replace(PREFIX_PATTERN, (_, prefix: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim();
+    if (!value) return ' ';
+
+    switch (prefix.toLowerCase()) {
+      case 'author':
+        query.author = value;
+        break;
+      case 'dept':
+        query.department = value;
+        break;
+      case 'year': {
+        const year = Number(value);
+        // Leave a malformed year in the free text rather than dropping it
+        if (!Number.isInteger(year)) return value;
+        query.year = year;
+        break;
+      }
+    }
+    return ' ';
+  });
+
+  query.text = text.replace(/\s+/g, ' ').trim();
+  return query;
+};
+
+export const hasSearchCriteria = (query: ThesisSearchQuery) =>
+  Boolean(query.text || query.author || query.department || query.year !== null);
+
+interface SearchableThesis {
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+}
+
+// The field that most likely made a thesis show up for this query
+export const matchedField = (thesis: SearchableThesis, query: ThesisSearchQuery): MatchedField => {
+  if (query.text && thesis.barcode.toLowerCase().startsWith(query.text.toLowerCase())) return 'barcode';
+  if (query.text && matchesSearch(thesis.thesis_title, query.text)) return 'title';
+  if (query.author || (query.text && thesis.authors.some(author => matchesSearch(author, query.text)))) return 'author';
+  if (query.department || (query.text && matchesSearch(thesis.department, query.text))) return 'department';
+  if (query.year !== null) return 'year';
+  return 'title';
+};
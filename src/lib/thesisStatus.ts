@@ -0,0 +1,11 @@
+import { Constants, type Enums } from '@/integrations/supabase/types';
+
+export type ThesisStatus = Enums<'thesis_status'>;
+
+export const THESIS_STATUSES: readonly ThesisStatus[] = Constants.public.Enums.thesis_status;
+
+export const STATUS_STYLES: Record<ThesisStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-yellow-100 text-yellow-800' },
+  published: { label: 'Published', className: 'bg-green-100 text-green-800' },
+  archived: { label: 'Archived', className: 'bg-gray-100 text-gray-800' },
+};
@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import { withStore } from './offlineStore';
+import { ThesisSearchQuery } from './thesisSearchQuery';
+
+// Published catalog entries as the title search lists them
+export interface CachedThesis {
+  id: number;
+  barcode: string;
+  thesis_title: string;
+  authors: string[];
+  department: string;
+  publication_year: number;
+}
+
+interface TitleSnapshot {
+  id: 'published';
+  fetchedAt: number;
+  theses: CachedThesis[];
+}
+
+// Refreshed at most this often, so the snapshot stays close to the catalog
+// without downloading it on every page load
+export const SNAPSHOT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const MAX_RESULTS = 10;
+
+const readSnapshot = () =>
+  withStore<TitleSnapshot | undefined>('thesis-titles', 'readonly', store => store.get('published'));
+
+const fetchPublishedTheses = async () => {
+  const theses: CachedThesis[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('thesis_data')
+      .select('id, barcode, thesis_title, authors, department, publication_year')
+      .eq('is_deleted', false)
+      .eq('status', 'published')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    theses.push(...data);
+    if (data.length < PAGE_SIZE) return theses;
+  }
+};
+
+// Downloads the published titles again once the saved copy is older than
+// SNAPSHOT_MAX_AGE_MS. Failures keep the previous snapshot.
+export const refreshTitleSnapshot = async () => {
+  const snapshot = await readSnapshot();
+  if (snapshot && Date.now() - snapshot.fetchedAt < SNAPSHOT_MAX_AGE_MS) return;
+
+  const theses = await fetchPublishedTheses();
+  await withStore('thesis-titles', 'readwrite', store =>
+    store.put({ id: 'published', fetchedAt: Date.now(), theses } satisfies TitleSnapshot)
+  );
+};
+
+const includesAll = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.every(term => lower.includes(term));
+};
+
+// Searches the saved titles the way suggest_theses searches the catalog,
+// for when Supabase cannot be reached: every word must appear in the title,
+// authors or department, or the text must start the barcode
+export const searchTitleSnapshot = async (query: ThesisSearchQuery): Promise<CachedThesis[]> => {
+  const snapshot = await readSnapshot();
+  if (!snapshot) return [];
+
+  const terms = query.text.toLowerCase().split(' ').filter(Boolean);
+  const author = query.author?.toLowerCase();
+  const department = query.department?.toLowerCase();
+
+  return snapshot.theses
+    .filter(thesis => {
+      if (author && !thesis.authors.some(name => name.toLowerCase().includes(author))) return false;
+      if (department && !thesis.department.toLowerCase().includes(department)) return false;
+      if (query.year !== null && thesis.publication_year !== query.year) return false;
+      if (!terms.length) return true;
+
+      return thesis.barcode.toLowerCase().startsWith(query.text.toLowerCase()) ||
+        includesAll([thesis.thesis_title, ...thesis.authors, thesis.department].join(' '), terms);
+    })
+    .slice(0, MAX_RESULTS);
+};
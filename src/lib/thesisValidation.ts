@@ -0,0 +1,25 @@
+// Client-side mirrors of the thesis_data table constraints, shared by the
+// import pipeline and the thesis editor so both reject the same values
+
+export const MIN_PUBLICATION_YEAR = 1900;
+
+// valid_barcode constraint
+export const BARCODE_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export const barcodeError = (barcode: string): string | null => {
+  if (!barcode) return 'Barcode is required';
+  if (!BARCODE_PATTERN.test(barcode)) {
+    return `Barcode "${barcode}" may only contain letters, numbers and hyphens`;
+  }
+  return null;
+};
+
+// valid_publication_year constraint
+export const publicationYearError = (year: number): string | null => {
+  const currentYear = new Date().getFullYear();
+  if (!Number.isInteger(year)) return 'Publication year must be a whole number';
+  if (year < MIN_PUBLICATION_YEAR || year > currentYear) {
+    return `Publication year must be between ${MIN_PUBLICATION_YEAR} and ${currentYear}`;
+  }
+  return null;
+};
@@ -0,0 +1,75 @@
+// Check-in and optional check-out times of a visit
+export interface VisitTimes {
+  submission_date: string;
+  checked_out_at: string | null;
+}
+
+export interface HourlyOccupancy {
+  hour: number;
+  label: string;
+  // Visitors in the room during this hour, averaged over the days with visits
+  average: number;
+  // Most visitors in the room during this hour on any one day
+  peak: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Minutes between check-in and check-out, or null for visits never checked out
+export const sessionMinutes = (visit: VisitTimes) =>
+  visit.checked_out_at
+    ? (new Date(visit.checked_out_at).getTime() - new Date(visit.submission_date).getTime()) / 60000
+    : null;
+
+export const averageSessionMinutes = (visits: VisitTimes[]) => {
+  const lengths = visits.map(sessionMinutes).filter((minutes): minutes is number => minutes !== null);
+  return lengths.length ? lengths.reduce((sum, minutes) => sum + minutes, 0) / lengths.length : null;
+};
+
+export const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  return hours ? `${hours}h ${rounded % 60}m` : `${rounded}m`;
+};
+
+const formatHour = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+
+// Visitors present in each hour of the day. A visit counts towards every
+// hour between check-in and check-out; one never checked out counts only
+// towards the hour it checked in.
+export const occupancyByHour = (visits: VisitTimes[]): HourlyOccupancy[] => {
+  const slots = new Map<string, number>();
+  const days = new Set<string>();
+
+  visits.forEach(visit => {
+    const start = new Date(visit.submission_date);
+    const end = visit.checked_out_at ? new Date(visit.checked_out_at) : start;
+    days.add(start.toDateString());
+
+    const slot = new Date(start);
+    slot.setMinutes(0, 0, 0);
+    for (; slot <= end; slot.setTime(slot.getTime() + HOUR_MS)) {
+      const key = `${slot.toDateString()}|${slot.getHours()}`;
+      slots.set(key, (slots.get(key) || 0) + 1);
+    }
+  });
+
+  const hours = Array.from({ length: 24 }, (_, hour) => {
+    const counts = Array.from(slots.entries())
+      .filter(([key]) => key.endsWith(`|${hour}`))
+      .map(([, count]) => count);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    return {
+      hour,
+      label: formatHour(hour),
+      average: days.size ? Math.round((total / days.size) * 10) / 10 : 0,
+      peak: counts.length ? Math.max(...counts) : 0,
+    };
+  });
+
+  // Trim the closed hours at either end of the day
+  const open = hours.filter(entry => entry.peak > 0);
+  if (open.length === 0) return [];
+  return hours.slice(open[0].hour, open[open.length - 1].hour + 1);
+};
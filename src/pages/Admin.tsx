@@ -0,0 +1,12 @@
+import React from 'react';
+import Header from '../components/Header';
+import AdminDashboard from '../components/admin/AdminDashboard';
+
+const Admin = () => (
+  <div className="min-h-screen bg-gray-50">
+    <Header />
+    <AdminDashboard />
+  </div>
+);
+
+export default Admin;
@@ -1,13 +1,13 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
 import Header from '../components/Header';
 import SubmissionForm from '../components/SubmissionForm';
-import AdminDashboard from '../components/admin/AdminDashboard';
-import LoginModal from '../components/LoginModal';
 import { useAuth } from '../hooks/useAuth';
 
 const Index = () => {
-  const [showLoginModal, setShowLoginModal] = useState(false);
   const { user, session, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
 
   console.log('Index component - Auth state:', { 
     user: user?.email, 
@@ -15,6 +15,11 @@ const Index = () => {
     loading 
   });
 
+  // The entrance tablet opens /?kiosk to start straight into kiosk mode
+  if (searchParams.has('kiosk')) {
+    return <Navigate to="/kiosk" replace />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -26,22 +31,15 @@ const Index = () => {
     );
   }
 
+  // Signed-in staff land on their dashboard
+  if (user && session) {
+    return <Navigate to="/admin" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header onAdminLoginClick={() => setShowLoginModal(true)} showAdminLogin={!user} />
-      
-      {/* Main Content */}
-      {user && session ? (
-        <AdminDashboard />
-      ) : (
-        <SubmissionForm />
-      )}
-
-      {/* Login Modal */}
-      <LoginModal 
-        isOpen={showLoginModal} 
-        onClose={() => setShowLoginModal(false)} 
-      />
+      <Header onAdminLoginClick={() => navigate('/login')} showAdminLogin />
+      <SubmissionForm />
     </div>
   );
 };
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '../components/Header';
+import SubmissionForm from '../components/SubmissionForm';
+import KioskExitDialog from '../components/KioskExitDialog';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+
+// Start the form over after this long without a touch or key press
+const KIOSK_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Browsers only allow fullscreen from a user gesture, so this is retried on
+// every touch until it sticks
+const enterFullscreen = () => {
+  if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+  document.documentElement.requestFullscreen().catch(() => {
+    // Not allowed yet; the next touch tries again
+  });
+};
+
+const Kiosk = () => {
+  // Changing the key remounts the form, clearing everything a visitor left behind
+  const [formKey, setFormKey] = useState(0);
+  const [showExit, setShowExit] = useState(false);
+  const navigate = useNavigate();
+
+  useIdleTimer(() => {
+    setShowExit(false);
+    setFormKey(key => key + 1);
+  }, KIOSK_IDLE_TIMEOUT_MS);
+
+  useEffect(() => {
+    enterFullscreen();
+    window.addEventListener('pointerdown', enterFullscreen);
+    return () => window.removeEventListener('pointerdown', enterFullscreen);
+  }, []);
+
+  const handleExit = () => {
+    window.removeEventListener('pointerdown', enterFullscreen);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    navigate('/', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header onExitKiosk={() => setShowExit(true)} />
+      <SubmissionForm key={formKey} />
+      <KioskExitDialog open={showExit} onOpenChange={setShowExit} onExit={handleExit} />
+    </div>
+  );
+};
+
+export default Kiosk;
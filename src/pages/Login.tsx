@@ -0,0 +1,45 @@
+import React from 'react';
+import { Location, Navigate, To, useLocation, useNavigate } from 'react-router-dom';
+import Header from '../components/Header';
+import SubmissionForm from '../components/SubmissionForm';
+import LoginModal from '../components/LoginModal';
+import { useAuth } from '../hooks/useAuth';
+
+const Login = () => {
+  const { user, session, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Set by the route guard when a dashboard link was opened signed out; the
+  // whole location is kept so the link's query string and hash survive
+  const from: To = (location.state as { from?: Location } | null)?.from ?? '/admin';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (user && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  // The sign-in dialog opens over the visitor form, as it always has
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <SubmissionForm />
+      <LoginModal
+        isOpen
+        onClose={() => navigate('/', { replace: true })}
+        onSuccess={() => navigate(from, { replace: true })}
+      />
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,8 @@
+-- Link visitor log entries to the catalog record that was consulted
+ALTER TABLE thesis_submissions
+    ADD COLUMN thesis_id bigint REFERENCES thesis_data (id) ON DELETE SET NULL;
+
+-- Reports group submissions by the consulted catalog item
+CREATE INDEX idx_thesis_submissions_thesis_id ON thesis_submissions (thesis_id);
+
+COMMENT ON COLUMN thesis_submissions.thesis_id IS 'Catalog record picked from the title suggestions; NULL for free-text titles';
@@ -0,0 +1,7 @@
+-- Staff can see soft-deleted records. Postgres checks the new row of an
+-- UPDATE ... WHERE against the SELECT policies, so without this marking a
+-- record as deleted fails with a row-level security violation.
+CREATE POLICY "View deleted thesis records" ON thesis_data
+    FOR SELECT
+    TO authenticated
+    USING (is_deleted);
@@ -0,0 +1,35 @@
+-- Record when and by whom a thesis was moved to the trash
+ALTER TABLE thesis_data
+    ADD COLUMN deleted_at timestamptz,
+    ADD COLUMN deleted_by uuid REFERENCES auth.users (id) ON DELETE SET NULL;
+
+-- Stamp deletion details whenever the soft delete flag changes
+CREATE OR REPLACE FUNCTION track_thesis_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_deleted AND NOT OLD.is_deleted THEN
+        NEW.deleted_at = now();
+        NEW.deleted_by = auth.uid();
+    ELSIF NOT NEW.is_deleted THEN
+        NEW.deleted_at = NULL;
+        NEW.deleted_by = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_thesis_data_deletion
+    BEFORE UPDATE OF is_deleted ON thesis_data
+    FOR EACH ROW
+    EXECUTE FUNCTION track_thesis_deletion();
+
+-- Only admins can permanently remove records
+CREATE POLICY "Purge thesis records" ON thesis_data
+    FOR DELETE
+    TO authenticated
+    USING (is_admin_user());
+
+CREATE INDEX idx_thesis_data_deleted_at ON thesis_data (deleted_at) WHERE is_deleted;
+
+COMMENT ON COLUMN thesis_data.deleted_at IS 'When the record was moved to the trash';
+COMMENT ON COLUMN thesis_data.deleted_by IS 'User who moved the record to the trash';
@@ -0,0 +1,22 @@
+-- Publication lifecycle for catalog records; new records start as drafts
+ALTER TABLE thesis_data
+    ADD COLUMN status public.thesis_status NOT NULL DEFAULT 'draft';
+
+-- Records that existed before the lifecycle are already live in the catalog
+UPDATE thesis_data SET status = 'published';
+
+CREATE INDEX idx_thesis_data_status ON thesis_data (status);
+
+-- Visitors only see published records; signed-in staff still see drafts and archived items
+DROP POLICY "View thesis records" ON thesis_data;
+
+CREATE POLICY "View published thesis records" ON thesis_data
+    FOR SELECT
+    USING (NOT is_deleted AND status = 'published');
+
+CREATE POLICY "View unpublished thesis records" ON thesis_data
+    FOR SELECT
+    TO authenticated
+    USING (NOT is_deleted);
+
+COMMENT ON COLUMN thesis_data.status IS 'Publication status; only published records are offered to visitors';
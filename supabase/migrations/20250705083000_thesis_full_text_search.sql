@@ -0,0 +1,41 @@
+-- Full-text search over title, authors and department. The title predicate
+-- matches idx_thesis_data_title; authors and department get matching indexes.
+
+-- array_to_string is only STABLE, so wrap it to allow an expression index
+CREATE OR REPLACE FUNCTION thesis_authors_tsvector(authors text[])
+RETURNS tsvector AS $$
+    SELECT to_tsvector('english', array_to_string(authors, ' '));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX idx_thesis_data_authors_fts ON thesis_data USING gin (thesis_authors_tsvector(authors));
+CREATE INDEX idx_thesis_data_department_fts ON thesis_data USING gin (to_tsvector('english', department));
+
+-- Turns free text into a prefix query so partial words match while typing:
+-- 'solar irrig' becomes 'solar':* & 'irrig':*
+CREATE OR REPLACE FUNCTION thesis_search_query(search_query text)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('english', coalesce(string_agg(quote_literal(word) || ':*', ' & '), ''))
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Returns matching theses, best match first; title matches outrank authors,
+-- which outrank department. Runs with the caller's RLS policies.
+CREATE OR REPLACE FUNCTION search_theses(search_query text)
+RETURNS SETOF thesis_data AS $$
+    SELECT t.*
+    FROM thesis_data t, thesis_search_query(search_query) q
+    WHERE to_tsvector('english', t.thesis_title) @@ q
+       OR thesis_authors_tsvector(t.authors) @@ q
+       OR to_tsvector('english', t.department) @@ q
+    ORDER BY ts_rank(
+        setweight(to_tsvector('english', t.thesis_title), 'A') ||
+        setweight(thesis_authors_tsvector(t.authors), 'B') ||
+        setweight(to_tsvector('english', t.department), 'C'),
+        q
+    ) DESC, t.thesis_title;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_theses(text) TO anon, authenticated;
+
+COMMENT ON FUNCTION search_theses(text) IS 'Ranked full-text thesis search over title, authors and department';
@@ -0,0 +1,37 @@
+-- Typo-tolerant title matching for visitors who type titles from memory
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX idx_thesis_data_title_trgm ON thesis_data USING gin (thesis_title extensions.gin_trgm_ops);
+
+-- Published theses whose titles are close to the search text, closest first.
+-- word_similarity scores the best matching stretch of the title, so a
+-- misspelled fragment still matches a long title. The threshold is applied
+-- through the <% operator so the trigram index can be used.
+CREATE OR REPLACE FUNCTION fuzzy_search_theses(search_query text, min_similarity real DEFAULT 0.3)
+RETURNS TABLE (
+    id bigint,
+    barcode varchar,
+    thesis_title text,
+    authors text[],
+    department varchar,
+    publication_year integer,
+    similarity real
+) AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.word_similarity_threshold', min_similarity::text, true);
+
+    RETURN QUERY
+    SELECT t.id, t.barcode, t.thesis_title, t.authors, t.department, t.publication_year,
+           word_similarity(search_query, t.thesis_title) AS similarity
+    FROM thesis_data t
+    WHERE search_query <% t.thesis_title
+      AND NOT t.is_deleted
+      AND t.status = 'published'
+    ORDER BY 7 DESC, t.thesis_title
+    LIMIT 10;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION fuzzy_search_theses(text, real) TO anon, authenticated;
+
+COMMENT ON FUNCTION fuzzy_search_theses(text, real) IS 'Trigram similarity search over published thesis titles';
@@ -0,0 +1,47 @@
+-- Visitor search suggestions: full-text search plus barcode prefixes, with
+-- optional author, department and year narrowing from `author:`, `dept:` and
+-- `year:` prefixes in the search box
+
+-- Escapes regex metacharacters so user text can be matched literally
+CREATE OR REPLACE FUNCTION regex_escape(value text)
+RETURNS text AS $$
+    SELECT regexp_replace(value, '([.*+?^${}()|\[\]\\])', '\\\1', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION suggest_theses(
+    search_query text DEFAULT '',
+    author_query text DEFAULT NULL,
+    department_query text DEFAULT NULL,
+    year_query integer DEFAULT NULL
+)
+RETURNS SETOF thesis_data AS $$
+    SELECT t.*
+    FROM thesis_data t, thesis_search_query(coalesce(search_query, '')) q
+    WHERE (
+            coalesce(search_query, '') = ''
+            OR to_tsvector('english', t.thesis_title) @@ q
+            OR thesis_authors_tsvector(t.authors) @@ q
+            OR to_tsvector('english', t.department) @@ q
+            OR t.barcode ILIKE replace(replace(search_query, '%', '\%'), '_', '\_') || '%'
+        )
+        -- Any word of any author, so a surname matches "Dela Cruz, Juan"
+        AND (author_query IS NULL OR EXISTS (
+            SELECT 1 FROM unnest(t.authors) AS author
+            WHERE author ~* ('\m' || regex_escape(author_query))
+        ))
+        AND (department_query IS NULL OR t.department ILIKE '%' || replace(replace(department_query, '%', '\%'), '_', '\_') || '%')
+        AND (year_query IS NULL OR t.publication_year = year_query)
+    ORDER BY
+        upper(t.barcode) = upper(coalesce(search_query, '')) DESC,
+        ts_rank(
+            setweight(to_tsvector('english', t.thesis_title), 'A') ||
+            setweight(thesis_authors_tsvector(t.authors), 'B') ||
+            setweight(to_tsvector('english', t.department), 'C'),
+            q
+        ) DESC,
+        t.thesis_title;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION suggest_theses(text, text, text, integer) TO anon, authenticated;
+
+COMMENT ON FUNCTION suggest_theses(text, text, text, integer) IS 'Search suggestions over title, authors, department and barcode prefix';
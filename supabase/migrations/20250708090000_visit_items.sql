@@ -0,0 +1,101 @@
+-- A visit (thesis_submissions row) can now list several consulted theses
+CREATE TABLE visit_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    submission_id uuid NOT NULL REFERENCES thesis_submissions (id) ON DELETE CASCADE,
+    position integer NOT NULL DEFAULT 0,
+    thesis_title text NOT NULL,
+    thesis_id bigint REFERENCES thesis_data (id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_visit_items_submission_id ON visit_items (submission_id);
+CREATE INDEX idx_visit_items_thesis_id ON visit_items (thesis_id);
+
+-- Scanning several barcodes used to log one row per thesis with identical
+-- visitor details and timestamp; fold those into a single visit
+WITH visits AS (
+    SELECT first_value(id) OVER same_visit AS visit_id,
+           row_number() OVER same_visit - 1 AS position,
+           thesis_title,
+           thesis_id
+    FROM thesis_submissions
+    WINDOW same_visit AS (
+        PARTITION BY full_name, user_type, student_number, school, campus, program, submission_date
+        ORDER BY created_at, id
+    )
+)
+INSERT INTO visit_items (submission_id, position, thesis_title, thesis_id)
+SELECT visit_id, position, thesis_title, thesis_id FROM visits;
+
+-- Rows folded into another visit now have no items of their own
+DELETE FROM thesis_submissions s
+WHERE NOT EXISTS (SELECT 1 FROM visit_items i WHERE i.submission_id = s.id);
+
+-- The consulted theses now live in visit_items
+ALTER TABLE thesis_submissions
+    DROP COLUMN thesis_title,
+    DROP COLUMN thesis_id;
+
+ALTER TABLE visit_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View visit items" ON visit_items
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Update visit items" ON visit_items
+    FOR UPDATE
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Delete visit items" ON visit_items
+    FOR DELETE
+    TO authenticated
+    USING (true);
+
+-- Logs a visit and its items in one transaction. Visitors are anonymous and
+-- cannot read thesis_submissions back, so this runs as the owner. A visit id
+-- that was already logged is ignored, which makes retries safe.
+CREATE OR REPLACE FUNCTION log_visit(visit jsonb, items jsonb)
+RETURNS uuid AS $$
+DECLARE
+    new_id uuid;
+BEGIN
+    IF jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+        RAISE EXCEPTION 'A visit needs at least one thesis';
+    END IF;
+    IF coalesce(trim(visit->>'full_name'), '') = '' THEN
+        RAISE EXCEPTION 'A visit needs the visitor''s name';
+    END IF;
+
+    INSERT INTO thesis_submissions (id, full_name, user_type, student_number, school, campus, program, submission_date)
+    VALUES (
+        coalesce((visit->>'id')::uuid, gen_random_uuid()),
+        visit->>'full_name',
+        visit->>'user_type',
+        visit->>'student_number',
+        visit->>'school',
+        visit->>'campus',
+        visit->>'program',
+        coalesce((visit->>'submission_date')::timestamptz, now())
+    )
+    ON CONFLICT (id) DO NOTHING
+    RETURNING id INTO new_id;
+
+    IF new_id IS NULL THEN
+        RETURN (visit->>'id')::uuid;
+    END IF;
+
+    INSERT INTO visit_items (submission_id, position, thesis_title, thesis_id)
+    SELECT new_id, item.ordinality - 1, item.value->>'thesis_title', (item.value->>'thesis_id')::bigint
+    FROM jsonb_array_elements(items) WITH ORDINALITY AS item(value, ordinality);
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION log_visit(jsonb, jsonb) TO anon, authenticated;
+
+COMMENT ON TABLE visit_items IS 'Theses consulted during a visit';
+COMMENT ON COLUMN visit_items.thesis_id IS 'Catalog record for the title; NULL for free-text titles';
@@ -0,0 +1,44 @@
+-- Optional exit time, so the library can report time spent and occupancy
+ALTER TABLE thesis_submissions
+    ADD COLUMN checked_out_at timestamptz,
+    ADD CONSTRAINT thesis_submissions_check_out_after_check_in CHECK (checked_out_at >= submission_date);
+
+CREATE INDEX idx_thesis_submissions_open_visits ON thesis_submissions (submission_date)
+    WHERE checked_out_at IS NULL;
+
+-- Visitors who checked in recently and have not checked out. Visitors who
+-- leave without checking out drop off the list after 12 hours rather than
+-- staying "in the room" forever. Only what the check-out list shows is
+-- returned to anonymous visitors.
+CREATE OR REPLACE FUNCTION current_visitors()
+RETURNS TABLE (id uuid, full_name text, user_type text, submission_date timestamptz) AS $$
+    SELECT s.id, s.full_name, s.user_type, s.submission_date
+    FROM thesis_submissions s
+    WHERE s.checked_out_at IS NULL
+      AND s.submission_date > now() - interval '12 hours'
+    ORDER BY s.submission_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stores the exit time of an open visit, picked from the list by id or found
+-- by the visitor's student number (their most recent open visit). Returns no
+-- row when there is no such open visit.
+CREATE OR REPLACE FUNCTION check_out_visit(visit_id uuid DEFAULT NULL, visitor_student_number text DEFAULT NULL)
+RETURNS TABLE (id uuid, full_name text, submission_date timestamptz, checked_out_at timestamptz) AS $$
+    UPDATE thesis_submissions
+    SET checked_out_at = greatest(now(), thesis_submissions.submission_date)
+    WHERE thesis_submissions.id = (
+        SELECT s.id
+        FROM thesis_submissions s
+        WHERE s.checked_out_at IS NULL
+          AND s.submission_date > now() - interval '12 hours'
+          AND (s.id = visit_id OR (visit_id IS NULL AND s.student_number = trim(visitor_student_number)))
+        ORDER BY s.submission_date DESC
+        LIMIT 1
+    )
+    RETURNING thesis_submissions.id, thesis_submissions.full_name, thesis_submissions.submission_date, thesis_submissions.checked_out_at;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_visitors() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_out_visit(uuid, text) TO anon, authenticated;
+
+COMMENT ON COLUMN thesis_submissions.checked_out_at IS 'When the visitor checked out; NULL if they never did';
@@ -0,0 +1,18 @@
+CREATE INDEX idx_thesis_submissions_student_number ON thesis_submissions (student_number, submission_date DESC)
+    WHERE student_number IS NOT NULL;
+
+-- Name, campus and program from a student's latest visit, so returning LPU
+-- students need not type them again. Visitors cannot read
+-- thesis_submissions, so this runs as the owner and returns only these
+-- fields; the form shows them only after the visitor confirms.
+CREATE OR REPLACE FUNCTION returning_visitor(visitor_student_number text)
+RETURNS TABLE (full_name text, campus text, program text) AS $$
+    SELECT s.full_name, s.campus, s.program
+    FROM thesis_submissions s
+    WHERE s.user_type = 'LPU Student'
+      AND s.student_number = trim(visitor_student_number)
+    ORDER BY s.submission_date DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION returning_visitor(text) TO anon, authenticated;
@@ -0,0 +1,89 @@
+-- Admin-managed lists behind the campus, program and department dropdowns.
+-- Inactive entries are hidden from new records but kept for old ones.
+CREATE TABLE campuses (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    name text NOT NULL UNIQUE CHECK (trim(name) <> ''),
+    sort_order integer NOT NULL DEFAULT 0,
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE programs (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    name text NOT NULL UNIQUE CHECK (trim(name) <> ''),
+    sort_order integer NOT NULL DEFAULT 0,
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE departments (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    name text NOT NULL UNIQUE CHECK (trim(name) <> ''),
+    sort_order integer NOT NULL DEFAULT 0,
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Start from the options the form used to hardcode, then add any other
+-- values already on record so old records still match a list entry
+INSERT INTO campuses (name, sort_order)
+VALUES ('LIMA Campus', 0), ('Main Campus', 1), ('Riverside Campus', 2);
+
+INSERT INTO campuses (name, sort_order)
+SELECT campus, 2 + row_number() OVER (ORDER BY campus)
+FROM (SELECT DISTINCT trim(campus) AS campus FROM thesis_submissions) s
+WHERE campus <> ''
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO programs (name, sort_order)
+VALUES
+    ('Computer Science', 0),
+    ('Information Technology', 1),
+    ('Engineering', 2),
+    ('Business Administration', 3),
+    ('Psychology', 4),
+    ('Education', 5),
+    ('Nursing', 6),
+    ('Accountancy', 7);
+
+INSERT INTO programs (name, sort_order)
+SELECT program, 7 + row_number() OVER (ORDER BY program)
+FROM (SELECT DISTINCT trim(program) AS program FROM thesis_submissions WHERE program IS NOT NULL) s
+WHERE program <> ''
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO departments (name, sort_order)
+SELECT department, row_number() OVER (ORDER BY department) - 1
+FROM (SELECT DISTINCT trim(department) AS department FROM thesis_data) d
+WHERE department NOT IN ('', 'Not Specified');
+
+ALTER TABLE campuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE departments ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read the lists; the visitor form needs them
+CREATE POLICY "View campuses" ON campuses FOR SELECT USING (true);
+CREATE POLICY "View programs" ON programs FOR SELECT USING (true);
+CREATE POLICY "View departments" ON departments FOR SELECT USING (true);
+
+CREATE POLICY "Manage campuses" ON campuses
+    FOR ALL
+    TO authenticated
+    USING (is_admin_user())
+    WITH CHECK (is_admin_user());
+
+CREATE POLICY "Manage programs" ON programs
+    FOR ALL
+    TO authenticated
+    USING (is_admin_user())
+    WITH CHECK (is_admin_user());
+
+CREATE POLICY "Manage departments" ON departments
+    FOR ALL
+    TO authenticated
+    USING (is_admin_user())
+    WITH CHECK (is_admin_user());
+
+COMMENT ON TABLE campuses IS 'Campuses offered in the visitor form';
+COMMENT ON TABLE programs IS 'Programs offered in the visitor form';
+COMMENT ON TABLE departments IS 'Departments a catalog thesis can belong to';
@@ -0,0 +1,51 @@
+-- PIN that staff enter to leave kiosk mode on the entrance tablet
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- A single row; only the bcrypt hash of the PIN is stored
+CREATE TABLE kiosk_settings (
+    id boolean PRIMARY KEY DEFAULT true CHECK (id),
+    pin_hash text NOT NULL,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    updated_by uuid REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+ALTER TABLE kiosk_settings ENABLE ROW LEVEL SECURITY;
+
+-- Admins may see when the PIN was last changed; the PIN itself is only
+-- ever set and checked through the functions below
+CREATE POLICY "View kiosk settings" ON kiosk_settings
+    FOR SELECT
+    TO authenticated
+    USING (is_admin_user());
+
+CREATE OR REPLACE FUNCTION set_kiosk_pin(pin text)
+RETURNS void AS $$
+BEGIN
+    IF NOT is_admin_user() THEN
+        RAISE EXCEPTION 'Only admins can set the kiosk PIN';
+    END IF;
+    IF pin !~ '^[0-9]{4,8}$' THEN
+        RAISE EXCEPTION 'The kiosk PIN must be 4 to 8 digits';
+    END IF;
+
+    INSERT INTO kiosk_settings (id, pin_hash, updated_at, updated_by)
+    VALUES (true, extensions.crypt(pin, extensions.gen_salt('bf')), now(), auth.uid())
+    ON CONFLICT (id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        updated_at = EXCLUDED.updated_at,
+        updated_by = EXCLUDED.updated_by;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The kiosk runs signed out, so anyone may check a PIN. Returns false when
+-- no PIN has been set.
+CREATE OR REPLACE FUNCTION verify_kiosk_pin(pin text)
+RETURNS boolean AS $$
+    SELECT coalesce(
+        (SELECT pin_hash = extensions.crypt(pin, pin_hash) FROM kiosk_settings WHERE id),
+        false
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_kiosk_pin(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_kiosk_pin(text) TO anon, authenticated;
@@ -0,0 +1,24 @@
+-- Staff look records up by the barcode on the sticker, which full-text
+-- search does not cover. Barcode prefix matches are listed first, ahead of
+-- the ranked title, author and department matches.
+CREATE OR REPLACE FUNCTION search_theses(search_query text)
+RETURNS SETOF thesis_data AS $$
+    SELECT t.*
+    FROM thesis_data t, thesis_search_query(search_query) q,
+         LATERAL (
+             SELECT t.barcode ILIKE replace(replace(search_query, '%', '\%'), '_', '\_') || '%' AS barcode_match
+         ) b
+    WHERE b.barcode_match
+       OR to_tsvector('english', t.thesis_title) @@ q
+       OR thesis_authors_tsvector(t.authors) @@ q
+       OR to_tsvector('english', t.department) @@ q
+    ORDER BY b.barcode_match DESC,
+        ts_rank(
+            setweight(to_tsvector('english', t.thesis_title), 'A') ||
+            setweight(thesis_authors_tsvector(t.authors), 'B') ||
+            setweight(to_tsvector('english', t.department), 'C'),
+            q
+        ) DESC, t.thesis_title;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_theses(text) IS 'Ranked thesis search over barcode prefix, title, authors and department';
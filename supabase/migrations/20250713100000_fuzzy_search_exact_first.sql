@@ -0,0 +1,31 @@
+-- word_similarity scores 1.0 for every title that contains the typed text,
+-- so an exact title could be listed after a longer one that contains it.
+-- Exact (case-insensitive) titles now come first, and ties are broken by
+-- the symmetric similarity of the whole title.
+CREATE OR REPLACE FUNCTION fuzzy_search_theses(search_query text, min_similarity real DEFAULT 0.3)
+RETURNS TABLE (
+    id bigint,
+    barcode varchar,
+    thesis_title text,
+    authors text[],
+    department varchar,
+    publication_year integer,
+    similarity real
+) AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.word_similarity_threshold', min_similarity::text, true);
+
+    RETURN QUERY
+    SELECT t.id, t.barcode, t.thesis_title, t.authors, t.department, t.publication_year,
+           word_similarity(search_query, t.thesis_title) AS similarity
+    FROM thesis_data t
+    WHERE search_query <% t.thesis_title
+      AND NOT t.is_deleted
+      AND t.status = 'published'
+    ORDER BY lower(t.thesis_title) = lower(btrim(search_query)) DESC,
+             7 DESC,
+             extensions.similarity(search_query, t.thesis_title) DESC,
+             t.thesis_title
+    LIMIT 10;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
@@ -0,0 +1,118 @@
+-- returning_visitor handed any caller the name, campus and program behind a
+-- student number, so the anon key alone was enough to walk through every
+-- student number. The lookup now happens in two steps:
+--   1. is_returning_visitor only says whether the number has visited before;
+--   2. returning_visitor also needs the first letter of the stored surname.
+-- Both are throttled per caller, and a student number stops answering after
+-- a few wrong initials.
+
+-- Recent lookups, for throttling. Only the functions below read or write it.
+CREATE TABLE returning_visitor_lookups (
+    id bigserial PRIMARY KEY,
+    caller text NOT NULL,
+    student_number text NOT NULL,
+    -- Null for existence checks; false when the surname initial was wrong
+    verified boolean,
+    attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_returning_visitor_lookups_caller ON returning_visitor_lookups (caller, attempted_at);
+CREATE INDEX idx_returning_visitor_lookups_student ON returning_visitor_lookups (student_number, attempted_at)
+    WHERE verified = false;
+
+ALTER TABLE returning_visitor_lookups ENABLE ROW LEVEL SECURITY;
+
+-- The client address PostgREST forwards; every caller without one shares a
+-- single budget
+CREATE OR REPLACE FUNCTION request_caller()
+RETURNS text AS $$
+    SELECT coalesce(
+        nullif(btrim(split_part(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ',', 1)), ''),
+        'unknown'
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Records one lookup, refusing callers that made too many recently
+CREATE OR REPLACE FUNCTION record_returning_visitor_lookup(visitor_student_number text, lookup_verified boolean)
+RETURNS void AS $$
+DECLARE
+    current_caller text := request_caller();
+BEGIN
+    DELETE FROM returning_visitor_lookups WHERE attempted_at < now() - interval '1 day';
+
+    -- A kiosk makes one or two lookups per visitor
+    IF (SELECT count(*) FROM returning_visitor_lookups
+        WHERE caller = current_caller AND attempted_at > now() - interval '10 minutes') >= 60 THEN
+        RAISE EXCEPTION 'Too many lookups; try again later';
+    END IF;
+
+    INSERT INTO returning_visitor_lookups (caller, student_number, verified)
+    VALUES (current_caller, visitor_student_number, lookup_verified);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The surname is the part before a comma ("Dela Cruz, Juan"), otherwise the
+-- last word ("Juan Dela Cruz" gives "Cruz")
+CREATE OR REPLACE FUNCTION surname_initial(full_name text)
+RETURNS text AS $$
+    SELECT upper(left(btrim(
+        CASE WHEN position(',' IN full_name) > 0
+            THEN split_part(full_name, ',', 1)
+            ELSE regexp_replace(btrim(full_name), '^.*\s', '')
+        END
+    ), 1));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_returning_visitor(visitor_student_number text)
+RETURNS boolean AS $$
+BEGIN
+    PERFORM record_returning_visitor_lookup(btrim(visitor_student_number), NULL);
+
+    RETURN EXISTS (
+        SELECT 1 FROM thesis_submissions s
+        WHERE s.user_type = 'LPU Student'
+          AND s.student_number = btrim(visitor_student_number)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION returning_visitor(text);
+
+-- Name, campus and program from the student's latest visit, returned only
+-- when the surname initial matches. Three wrong initials within an hour
+-- lock the number out until the hour has passed.
+CREATE OR REPLACE FUNCTION returning_visitor(visitor_student_number text, visitor_surname_initial text)
+RETURNS TABLE (full_name text, campus text, program text) AS $$
+DECLARE
+    student text := btrim(visitor_student_number);
+    latest record;
+    matches boolean;
+BEGIN
+    IF (SELECT count(*) FROM returning_visitor_lookups l
+        WHERE l.student_number = student
+          AND l.verified = false
+          AND l.attempted_at > now() - interval '1 hour') >= 3 THEN
+        RETURN;
+    END IF;
+
+    SELECT s.full_name, s.campus, s.program INTO latest
+    FROM thesis_submissions s
+    WHERE s.user_type = 'LPU Student'
+      AND s.student_number = student
+    ORDER BY s.submission_date DESC
+    LIMIT 1;
+
+    matches := latest.full_name IS NOT NULL
+        AND surname_initial(latest.full_name) = upper(left(btrim(visitor_surname_initial), 1));
+
+    PERFORM record_returning_visitor_lookup(student, matches);
+
+    IF matches THEN
+        RETURN QUERY SELECT latest.full_name::text, latest.campus::text, latest.program::text;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_returning_visitor_lookup(text, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_returning_visitor(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION returning_visitor(text, text) TO anon, authenticated;
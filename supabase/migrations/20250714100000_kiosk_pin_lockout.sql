@@ -0,0 +1,57 @@
+-- verify_kiosk_pin is open to anyone, and a 4-digit PIN has only 10,000
+-- values, so without a limit it could be guessed through the API in
+-- minutes. Five wrong PINs in a row now lock the PIN for 15 minutes.
+ALTER TABLE kiosk_settings
+    ADD COLUMN failed_attempts integer NOT NULL DEFAULT 0,
+    ADD COLUMN locked_until timestamptz;
+
+CREATE OR REPLACE FUNCTION verify_kiosk_pin(pin text)
+RETURNS boolean AS $$
+DECLARE
+    settings kiosk_settings;
+BEGIN
+    SELECT * INTO settings FROM kiosk_settings WHERE id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF settings.locked_until > now() THEN
+        RAISE EXCEPTION 'Too many incorrect PINs. Try again in % minutes.',
+            ceil(extract(epoch FROM settings.locked_until - now()) / 60);
+    END IF;
+
+    IF settings.pin_hash = extensions.crypt(pin, settings.pin_hash) THEN
+        UPDATE kiosk_settings SET failed_attempts = 0, locked_until = NULL WHERE id;
+        RETURN true;
+    END IF;
+
+    IF settings.failed_attempts + 1 >= 5 THEN
+        UPDATE kiosk_settings SET failed_attempts = 0, locked_until = now() + interval '15 minutes' WHERE id;
+    ELSE
+        UPDATE kiosk_settings SET failed_attempts = settings.failed_attempts + 1 WHERE id;
+    END IF;
+    RETURN false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Setting a new PIN lifts any lockout
+CREATE OR REPLACE FUNCTION set_kiosk_pin(pin text)
+RETURNS void AS $$
+BEGIN
+    IF NOT is_admin_user() THEN
+        RAISE EXCEPTION 'Only admins can set the kiosk PIN';
+    END IF;
+    IF pin !~ '^[0-9]{4,8}$' THEN
+        RAISE EXCEPTION 'The kiosk PIN must be 4 to 8 digits';
+    END IF;
+
+    INSERT INTO kiosk_settings (id, pin_hash, updated_at, updated_by)
+    VALUES (true, extensions.crypt(pin, extensions.gen_salt('bf')), now(), auth.uid())
+    ON CONFLICT (id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        updated_at = EXCLUDED.updated_at,
+        updated_by = EXCLUDED.updated_by,
+        failed_attempts = 0,
+        locked_until = NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
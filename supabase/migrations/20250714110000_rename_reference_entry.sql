@@ -0,0 +1,39 @@
+-- Records store campus, program and department names as text, so renaming
+-- a list entry on its own left every record with the old name outside the
+-- filters and the editor's list check. Renames now go through this
+-- function, which updates the entry and the records using it together.
+CREATE OR REPLACE FUNCTION rename_reference_entry(list_name text, entry_id bigint, new_name text)
+RETURNS void AS $$
+DECLARE
+    old_name text;
+BEGIN
+    IF NOT is_admin_user() THEN
+        RAISE EXCEPTION 'Only admins can rename list entries';
+    END IF;
+
+    new_name := btrim(new_name);
+
+    CASE list_name
+        WHEN 'campuses' THEN
+            SELECT name INTO old_name FROM campuses WHERE id = entry_id FOR UPDATE;
+            UPDATE campuses SET name = new_name WHERE id = entry_id;
+            UPDATE thesis_submissions SET campus = new_name WHERE btrim(campus) = old_name;
+        WHEN 'programs' THEN
+            SELECT name INTO old_name FROM programs WHERE id = entry_id FOR UPDATE;
+            UPDATE programs SET name = new_name WHERE id = entry_id;
+            UPDATE thesis_submissions SET program = new_name WHERE btrim(program) = old_name;
+        WHEN 'departments' THEN
+            SELECT name INTO old_name FROM departments WHERE id = entry_id FOR UPDATE;
+            UPDATE departments SET name = new_name WHERE id = entry_id;
+            UPDATE thesis_data SET department = new_name WHERE btrim(department) = old_name;
+        ELSE
+            RAISE EXCEPTION 'Unknown reference list %', list_name;
+    END CASE;
+
+    IF old_name IS NULL THEN
+        RAISE EXCEPTION 'List entry % not found', entry_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION rename_reference_entry(text, bigint, text) TO authenticated;